@@ -6,20 +6,27 @@ figma.showUI(__html__, { width: 360, height: 422 });
 
 // Variáveis de estado
 let showHiddenElements = false;
-let currentTab: "colors" | "typography" | "spacing" = "colors";
+type AuditTab = "colors" | "typography" | "spacing" | "effects" | "components";
+let currentTab: AuditTab = "colors";
 let ignoringSelectionChange = false;
 let rootFrameId: string | null = null;
 let initialSelectionIds: string[] | null = null;
 let nodesWithAppliedToken = new Set<string>();
 
-// 🔥 CACHE — invalida quando a página muda
-let cachedColorTokens: { name: string; hex: string; styleId?: string }[] | null = null;
-let cachedTextTokens: { name: string; styleId: string; fontFamily?: string; fontStyle?: string; fontSize?: number }[] | null = null;
-let cachedSpacingTokens: { styleId: string; name: string; value: number; type: string }[] | null = null;
+// 🔥 CACHE — invalida quando a página muda ou quando estilos, variáveis e nodes da categoria mudam
+let cachedColorTokens: ColorToken[] | null = null;
+let cachedTextTokens: TextToken[] | null = null;
+let cachedSpacingTokens: SpacingToken[] | null = null;
+let cachedEffectTokens: EffectToken[] | null = null;
 
 // 🔥 Armazena múltiplos frames selecionados
 let rootFrameIds: string[] = [];
 
+// 🔥 Escopo da auditoria: seleção, página atual ou documento inteiro
+type AnalysisScope = "selection" | "page" | "document";
+const ANALYSIS_SCOPES: AnalysisScope[] = ["selection", "page", "document"];
+let analysisScope: AnalysisScope = "selection";
+
 
 // 🔥 NOVO: Armazena o estado original dos nodes antes de aplicar tokens
 interface OriginalNodeState {
@@ -48,9 +55,20 @@ interface OriginalNodeState {
     topRightRadius?: number;
     bottomLeftRadius?: number;
     bottomRightRadius?: number;
+    // 🔥 Propriedades de efeitos
+    effectStyleId?: string;
+    effects?: readonly Effect[];
+    // 🔥 Trechos de texto misto (um por estilo), para desfazer por intervalo
+    textSegments?: NodeSnapshot[];
 }
 let originalNodeStates = new Map<string, OriginalNodeState>();
 
+// 🔥 Identifica a sessão atual do plugin no histórico de aplicações
+const journalSessionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// 🔥 Plano de correção automática aguardando confirmação da UI
+let pendingAutoFix: { changes: AutoFixChange[]; skipped: AutoFixSkip[] } | null = null;
+
 
 
 /* ---------- HELPERS ---------- */
@@ -61,6 +79,106 @@ function rgbToHex({ r, g, b }: { r: number; g: number; b: number }): string {
     return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
 }
 
+// Converte HEX (#RRGGBB) para RGB normalizado (0–1)
+function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+    if (!match) return null;
+    return {
+        r: parseInt(match[1], 16) / 255,
+        g: parseInt(match[2], 16) / 255,
+        b: parseInt(match[3], 16) / 255
+    };
+}
+
+// 🔥 Converte RGB (sRGB, 0–1) para CIE Lab (D65)
+function rgbToLab({ r, g, b }: { r: number; g: number; b: number }): { L: number; a: number; b: number } {
+    const linear = (v: number) => v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    const lr = linear(r);
+    const lg = linear(g);
+    const lb = linear(b);
+
+    const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+    const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750) / 1.0;
+    const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / 1.08883;
+
+    const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : (7.787 * t) + 16 / 116;
+    const fx = f(x);
+    const fy = f(y);
+    const fz = f(z);
+
+    return { L: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+// 🔥 Distância perceptual CIEDE2000 entre duas cores Lab
+function deltaE2000(
+    lab1: { L: number; a: number; b: number },
+    lab2: { L: number; a: number; b: number }
+): number {
+    const rad = (deg: number) => deg * Math.PI / 180;
+    const deg = (r: number) => r * 180 / Math.PI;
+
+    const C1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+    const C2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+    const avgC = (C1 + C2) / 2;
+    const G = 0.5 * (1 - Math.sqrt(Math.pow(avgC, 7) / (Math.pow(avgC, 7) + Math.pow(25, 7))));
+
+    const a1p = lab1.a * (1 + G);
+    const a2p = lab2.a * (1 + G);
+    const C1p = Math.sqrt(a1p * a1p + lab1.b * lab1.b);
+    const C2p = Math.sqrt(a2p * a2p + lab2.b * lab2.b);
+
+    const hp = (a: number, b: number) => {
+        if (a === 0 && b === 0) return 0;
+        const h = deg(Math.atan2(b, a));
+        return h >= 0 ? h : h + 360;
+    };
+    const h1p = hp(a1p, lab1.b);
+    const h2p = hp(a2p, lab2.b);
+
+    const dLp = lab2.L - lab1.L;
+    const dCp = C2p - C1p;
+
+    let dhp = 0;
+    if (C1p * C2p !== 0) {
+        dhp = h2p - h1p;
+        if (dhp > 180) dhp -= 360;
+        else if (dhp < -180) dhp += 360;
+    }
+    const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(rad(dhp / 2));
+
+    const avgLp = (lab1.L + lab2.L) / 2;
+    const avgCp = (C1p + C2p) / 2;
+
+    let avghp = h1p + h2p;
+    if (C1p * C2p !== 0) {
+        if (Math.abs(h1p - h2p) > 180) {
+            avghp = (h1p + h2p + (h1p + h2p < 360 ? 360 : -360)) / 2;
+        } else {
+            avghp = (h1p + h2p) / 2;
+        }
+    }
+
+    const T = 1
+        - 0.17 * Math.cos(rad(avghp - 30))
+        + 0.24 * Math.cos(rad(2 * avghp))
+        + 0.32 * Math.cos(rad(3 * avghp + 6))
+        - 0.20 * Math.cos(rad(4 * avghp - 63));
+
+    const dTheta = 30 * Math.exp(-Math.pow((avghp - 275) / 25, 2));
+    const Rc = 2 * Math.sqrt(Math.pow(avgCp, 7) / (Math.pow(avgCp, 7) + Math.pow(25, 7)));
+    const Sl = 1 + (0.015 * Math.pow(avgLp - 50, 2)) / Math.sqrt(20 + Math.pow(avgLp - 50, 2));
+    const Sc = 1 + 0.045 * avgCp;
+    const Sh = 1 + 0.015 * avgCp * T;
+    const Rt = -Math.sin(rad(2 * dTheta)) * Rc;
+
+    return Math.sqrt(
+        Math.pow(dLp / Sl, 2) +
+        Math.pow(dCp / Sc, 2) +
+        Math.pow(dHp / Sh, 2) +
+        Rt * (dCp / Sc) * (dHp / Sh)
+    );
+}
+
 // Type guard para SceneNode
 function isSceneNode(node: BaseNode): node is SceneNode {
     return node.type !== "DOCUMENT" && node.type !== "PAGE";
@@ -76,7 +194,126 @@ function isGradientPaint(p: Paint): p is GradientPaint {
     );
 }
 
-// Prefixos válidos de tokens de cor e espaçamento
+// Stop de gradiente resumido para a UI
+interface GradientStopInfo {
+    stopIndex: number;
+    hex: string;
+    alpha: number;
+    position: number;
+    bound: boolean;
+}
+
+function describeGradientStops(paint: GradientPaint): GradientStopInfo[] {
+    return paint.gradientStops.map((stop, stopIndex) => ({
+        stopIndex,
+        hex: rgbToHex(stop.color),
+        alpha: Math.round(stop.color.a * 100),
+        position: Math.round(stop.position * 100),
+        bound: !!stop.boundVariables?.color
+    }));
+}
+
+/* ---------- EFFECTS ---------- */
+
+type AuditableEffect = DropShadowEffect | InnerShadowEffect | BlurEffect;
+
+// Estilo de efeito disponível para sugestão (local ou de biblioteca usado na página)
+interface EffectToken {
+    name: string;
+    styleId: string;
+    effects: AuditableEffect[];
+    label: string;
+    remote: boolean;
+    type: "STYLE";
+}
+
+// Distância máxima de uma pilha de efeitos para ser considerada "quase igual"
+const NEAR_MATCH_EFFECT_DISTANCE = 4;
+
+// Apenas sombras e blurs são auditados (noise, texture e glass ficam de fora)
+function isAuditableEffect(effect: Effect): effect is AuditableEffect {
+    return (
+        effect.type === "DROP_SHADOW" ||
+        effect.type === "INNER_SHADOW" ||
+        effect.type === "LAYER_BLUR" ||
+        effect.type === "BACKGROUND_BLUR"
+    );
+}
+
+function getAuditableEffects(effects: readonly Effect[]): AuditableEffect[] {
+    return effects.filter((e): e is AuditableEffect => isAuditableEffect(e) && e.visible !== false);
+}
+
+function hasBoundEffectVariables(effects: readonly Effect[]): boolean {
+    return effects.some(e => {
+        const bv = (e as any).boundVariables;
+        return !!bv && Object.keys(bv).length > 0;
+    });
+}
+
+function isShadowEffect(effect: AuditableEffect): effect is DropShadowEffect | InnerShadowEffect {
+    return effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW";
+}
+
+function formatEffectNumber(value: number): number {
+    return parseFloat(value.toFixed(2));
+}
+
+// Chave estável de uma pilha de efeitos — pilhas idênticas caem no mesmo grupo
+function effectStackKey(effects: AuditableEffect[]): string {
+    return effects.map(e => {
+        if (isShadowEffect(e)) {
+            const alpha = Math.round(e.color.a * 100);
+            return `${e.type}:${formatEffectNumber(e.offset.x)},${formatEffectNumber(e.offset.y)},${formatEffectNumber(e.radius)},${formatEffectNumber(e.spread ?? 0)},${rgbToHex(e.color)},${alpha}`;
+        }
+        return `${e.type}:${formatEffectNumber(e.radius)}`;
+    }).join("|");
+}
+
+const EFFECT_TYPE_LABELS: { [type: string]: string } = {
+    DROP_SHADOW: "Drop shadow",
+    INNER_SHADOW: "Inner shadow",
+    LAYER_BLUR: "Layer blur",
+    BACKGROUND_BLUR: "Background blur"
+};
+
+function describeEffect(effect: AuditableEffect): string {
+    const typeLabel = EFFECT_TYPE_LABELS[effect.type];
+    if (isShadowEffect(effect)) {
+        const spread = effect.spread ? ` · spread ${formatEffectNumber(effect.spread)}` : "";
+        return `${typeLabel} ${formatEffectNumber(effect.offset.x)}, ${formatEffectNumber(effect.offset.y)} · blur ${formatEffectNumber(effect.radius)}${spread} · ${rgbToHex(effect.color)} ${Math.round(effect.color.a * 100)}%`;
+    }
+    return `${typeLabel} ${formatEffectNumber(effect.radius)}`;
+}
+
+function describeEffectStack(effects: AuditableEffect[]): string {
+    return effects.length > 0 ? effects.map(describeEffect).join(" + ") : "Sem efeitos";
+}
+
+// Distância entre dois efeitos: tipos diferentes pesam 100, o resto soma as diferenças
+function effectDistance(a: AuditableEffect, b: AuditableEffect): number {
+    if (a.type !== b.type) return 100;
+
+    let distance = Math.abs(a.radius - b.radius);
+    if (isShadowEffect(a) && isShadowEffect(b)) {
+        distance += Math.abs(a.offset.x - b.offset.x) + Math.abs(a.offset.y - b.offset.y);
+        distance += Math.abs((a.spread ?? 0) - (b.spread ?? 0));
+        distance += deltaE2000(rgbToLab(a.color), rgbToLab(b.color));
+        distance += Math.abs(a.color.a - b.color.a) * 100;
+    }
+    return distance;
+}
+
+function effectStackDistance(source: AuditableEffect[], target: AuditableEffect[]): number {
+    let distance = 0;
+    const length = Math.max(source.length, target.length);
+    for (let i = 0; i < length; i++) {
+        distance += source[i] && target[i] ? effectDistance(source[i], target[i]) : 100;
+    }
+    return distance;
+}
+
+// Prefixos válidos padrão de tokens de cor e espaçamento
 const VALID_TOKEN_PREFIXES = [
     "Base Color/",
     "Contextual Color/",
@@ -90,17 +327,192 @@ const VALID_TOKEN_PREFIXES = [
 // Escala de espaçamento padrão
 const spacingScale = [4, 8, 12, 16, 20, 24, 32, 40, 48, 56, 64, 80, 120, 160, 200];
 
+// 🔥 Configuração salva no arquivo (document pluginData), com o último valor do usuário (clientStorage) de reserva
+interface SettingsStore<T> {
+    key: string;                        // Chave usada em document pluginData e clientStorage
+    label: string;                      // Nome usado no log de erro
+    defaults: T;
+    normalize: (raw: unknown) => T;     // Preenche campos ausentes ou inválidos com os padrões
+    current: T;
+    loading: Promise<void> | null;
+}
+
+// Objeto salvo/importado, antes da normalização
+type RawSettings = { [key: string]: unknown };
+
+function asRawSettings(raw: unknown): RawSettings {
+    return raw && typeof raw === "object" ? raw as RawSettings : {};
+}
+
+function createSettingsStore<T>(key: string, label: string, defaults: T, normalize: (raw: unknown) => T): SettingsStore<T> {
+    return { key, label, defaults, normalize, current: defaults, loading: null };
+}
+
+// Carrega uma única vez: quem chega depois espera a mesma carga
+function loadSettings<T>(store: SettingsStore<T>): Promise<void> {
+    if (!store.loading) store.loading = readSettings(store);
+    return store.loading;
+}
+
+async function readSettings<T>(store: SettingsStore<T>): Promise<void> {
+    try {
+        const fromDocument = figma.root.getPluginData(store.key);
+        if (fromDocument) {
+            store.current = store.normalize(JSON.parse(fromDocument));
+            return;
+        }
+
+        const fromClient = await figma.clientStorage.getAsync(store.key);
+        store.current = fromClient ? store.normalize(fromClient) : store.defaults;
+    } catch (e) {
+        console.error(`❌ Erro ao carregar ${store.label}:`, e);
+        store.current = store.defaults;
+    }
+}
+
+// 🔥 Espera a carga antes de salvar, senão o valor carregado sobrescreveria o recém-salvo
+async function saveSettings<T>(store: SettingsStore<T>, settings: T): Promise<void> {
+    await loadSettings(store);
+    store.current = settings;
+    figma.root.setPluginData(store.key, JSON.stringify(settings));
+    await figma.clientStorage.setAsync(store.key, settings);
+}
+
+// 🔥 Escalas de espaçamento e raio — configuráveis por arquivo
+interface ScaleSettings {
+    spacingScale: number[];
+    radiusScale: number[];
+    spacingCollectionId: string | null;   // Quando definido, a escala vem das variáveis FLOAT da coleção
+    radiusCollectionId: string | null;
+    tolerance: number;                    // Diferença máxima (px) para considerar o valor na escala
+    allowZero: boolean;                   // 0 conta como valor válido
+}
+
+const DEFAULT_SCALE_SETTINGS: ScaleSettings = {
+    spacingScale: spacingScale,
+    radiusScale: spacingScale,
+    spacingCollectionId: null,
+    radiusCollectionId: null,
+    tolerance: 0,
+    allowZero: true
+};
+
+const scaleSettings = createSettingsStore("scaleSettings", "escalas", DEFAULT_SCALE_SETTINGS, normalizeScaleSettings);
+
+// 🔥 Pesos da comparação entre um texto e os estilos sugeridos (0 = ignora a propriedade)
+interface TextMatchSettings {
+    fontFamily: number;       // Penalidade fixa quando a família difere
+    fontWeight: number;       // Por 100 de peso (e fixa quando só o itálico difere)
+    fontSize: number;         // Por px de diferença
+    lineHeight: number;       // Por px de diferença (% e Auto convertidos pelo tamanho da fonte)
+    letterSpacing: number;    // Por px de diferença
+    textCase: number;         // Penalidade fixa
+    textDecoration: number;   // Penalidade fixa
+}
+
+const DEFAULT_TEXT_MATCH_SETTINGS: TextMatchSettings = {
+    fontFamily: 100,
+    fontWeight: 1,
+    fontSize: 1,
+    lineHeight: 0.5,
+    letterSpacing: 1,
+    textCase: 10,
+    textDecoration: 10
+};
+
+const textMatchSettings = createSettingsStore(
+    "textMatchSettings", "pesos de tipografia", DEFAULT_TEXT_MATCH_SETTINGS, normalizeTextMatchSettings
+);
+
+// ΔE (CIEDE2000) máximo para considerar um token "quase igual" à cor original
+const NEAR_MATCH_DELTA_E = 2;
+
+// 🔥 Regras de nomenclatura de tokens — editáveis por arquivo na tela de configurações
+interface NamingSettings {
+    validPrefixes: string[];        // Estilos com estes prefixos contam como token
+    validPatterns: string[];        // Regex alternativas aos prefixos
+    ignoredPrefixes: string[];      // Nomes internos/privados (ex: "_", "/")
+    ignoredPatterns: string[];
+    stripPrefixes: boolean;         // Remove os prefixos válidos na exibição
+    displayTransforms: { pattern: string; replace: string }[];
+}
+
+const DEFAULT_NAMING_SETTINGS: NamingSettings = {
+    validPrefixes: VALID_TOKEN_PREFIXES,
+    validPatterns: [],
+    ignoredPrefixes: ["_", "/"],
+    ignoredPatterns: [],
+    stripPrefixes: true,
+    displayTransforms: [{ pattern: "^📚\\s+", replace: "" }]
+};
+
+// 🔥 Sem regras no arquivo, usa o último preset do usuário
+const namingSettings = createSettingsStore(
+    "namingSettings", "regras de nomenclatura", DEFAULT_NAMING_SETTINGS, normalizeNamingSettings
+);
+
+// Compila um padrão do usuário; padrões inválidos são descartados
+function compilePattern(pattern: string): RegExp | null {
+    try {
+        return new RegExp(pattern);
+    } catch (e) {
+        return null;
+    }
+}
+
+// Preenche campos ausentes de um preset importado/salvo com os valores padrão
+function normalizeNamingSettings(input: unknown): NamingSettings {
+    const raw = asRawSettings(input);
+    const strings = (value: unknown, fallback: string[]) =>
+        Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : fallback;
+
+    return {
+        validPrefixes: strings(raw.validPrefixes, DEFAULT_NAMING_SETTINGS.validPrefixes),
+        validPatterns: strings(raw.validPatterns, DEFAULT_NAMING_SETTINGS.validPatterns),
+        ignoredPrefixes: strings(raw.ignoredPrefixes, DEFAULT_NAMING_SETTINGS.ignoredPrefixes),
+        ignoredPatterns: strings(raw.ignoredPatterns, DEFAULT_NAMING_SETTINGS.ignoredPatterns),
+        stripPrefixes: typeof raw.stripPrefixes === "boolean" ? raw.stripPrefixes : DEFAULT_NAMING_SETTINGS.stripPrefixes,
+        displayTransforms: Array.isArray(raw.displayTransforms)
+            ? raw.displayTransforms
+                .map(asRawSettings)
+                .filter(t => typeof t.pattern === "string")
+                .map(t => ({ pattern: t.pattern as string, replace: typeof t.replace === "string" ? t.replace : "" }))
+            : DEFAULT_NAMING_SETTINGS.displayTransforms
+    };
+}
+
+// Lista os padrões regex inválidos de um preset
+function findInvalidPatterns(settings: NamingSettings): string[] {
+    const patterns = [
+        ...settings.validPatterns,
+        ...settings.ignoredPatterns,
+        ...settings.displayTransforms.map(t => t.pattern)
+    ];
+    return patterns.filter(p => !compilePattern(p));
+}
+
+// Verifica se o nome do estilo segue a nomenclatura de tokens configurada
+function hasValidTokenPrefix(name: string): boolean {
+    if (namingSettings.current.validPrefixes.some(prefix => name.startsWith(prefix))) return true;
+    return namingSettings.current.validPatterns.some(pattern => compilePattern(pattern)?.test(name) ?? false);
+}
+
 // Remove o prefixo do nome do token para exibição
 function removeTokenPrefix(tokenName: string): string {
     let result = tokenName;
 
-    // Remove emoji 📚 se existir
-    result = result.replace(/^📚\s+/, '');
+    // Transformações configuradas (por padrão remove o emoji 📚)
+    for (const transform of namingSettings.current.displayTransforms) {
+        const regex = compilePattern(transform.pattern);
+        if (regex) result = result.replace(regex, transform.replace);
+    }
 
     // Remove todos os prefixos válidos
-    for (const prefix of VALID_TOKEN_PREFIXES) {
-        if (result.startsWith(prefix)) {
-            result = result.substring(prefix.length);
+    if (namingSettings.current.stripPrefixes) {
+        for (const prefix of namingSettings.current.validPrefixes) {
+            if (result.startsWith(prefix)) {
+                result = result.substring(prefix.length);
+            }
         }
     }
 
@@ -110,11 +522,89 @@ function removeTokenPrefix(tokenName: string): string {
 // 🔥 Verifica se um nome de token é válido para exibição (não é interno/privado)
 function isValidTokenName(name: string): boolean {
     const trimmed = name.trim();
-    if (trimmed.startsWith('_') || trimmed.startsWith('/')) return false;
     if (trimmed.length === 0) return false;
+    if (namingSettings.current.ignoredPrefixes.some(prefix => prefix !== "" && trimmed.startsWith(prefix))) return false;
+    if (namingSettings.current.ignoredPatterns.some(pattern => compilePattern(pattern)?.test(trimmed) ?? false)) return false;
     return true;
 }
 
+// Preenche campos ausentes das escalas salvas com os valores padrão
+function normalizeScaleSettings(input: unknown): ScaleSettings {
+    const raw = asRawSettings(input);
+    const numbers = (value: unknown, fallback: number[]) =>
+        Array.isArray(value)
+            ? Array.from(new Set(value.filter((v): v is number => typeof v === "number" && isFinite(v)))).sort((a, b) => a - b)
+            : fallback;
+
+    return {
+        spacingScale: numbers(raw.spacingScale, DEFAULT_SCALE_SETTINGS.spacingScale),
+        radiusScale: numbers(raw.radiusScale, DEFAULT_SCALE_SETTINGS.radiusScale),
+        spacingCollectionId: typeof raw.spacingCollectionId === "string" ? raw.spacingCollectionId : null,
+        radiusCollectionId: typeof raw.radiusCollectionId === "string" ? raw.radiusCollectionId : null,
+        tolerance: typeof raw.tolerance === "number" && raw.tolerance >= 0 ? raw.tolerance : DEFAULT_SCALE_SETTINGS.tolerance,
+        allowZero: typeof raw.allowZero === "boolean" ? raw.allowZero : DEFAULT_SCALE_SETTINGS.allowZero
+    };
+}
+
+// Preenche pesos ausentes ou inválidos com os valores padrão
+function normalizeTextMatchSettings(input: unknown): TextMatchSettings {
+    const raw = asRawSettings(input);
+    const weight = (key: keyof TextMatchSettings) => {
+        const w = raw[key];
+        return typeof w === "number" && isFinite(w) && w >= 0 ? w : DEFAULT_TEXT_MATCH_SETTINGS[key];
+    };
+
+    return {
+        fontFamily: weight("fontFamily"),
+        fontWeight: weight("fontWeight"),
+        fontSize: weight("fontSize"),
+        lineHeight: weight("lineHeight"),
+        letterSpacing: weight("letterSpacing"),
+        textCase: weight("textCase"),
+        textDecoration: weight("textDecoration")
+    };
+}
+
+// 🔥 Deriva uma escala a partir das variáveis FLOAT de uma coleção (modo padrão)
+async function deriveScaleFromCollection(collectionId: string): Promise<number[] | null> {
+    const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId).catch(() => null);
+    if (!collection) return null;
+
+    const variables = await Promise.all(
+        collection.variableIds.map(id => figma.variables.getVariableByIdAsync(id).catch(() => null))
+    );
+
+    const values = new Set<number>();
+    for (const variable of variables) {
+        if (!variable || variable.resolvedType !== "FLOAT") continue;
+        const value = variable.valuesByMode[collection.defaultModeId];
+        if (typeof value === "number") values.add(value);
+    }
+
+    return Array.from(values).sort((a, b) => a - b);
+}
+
+// Escalas efetivas: derivadas da coleção escolhida ou a lista manual
+async function resolveScales(): Promise<{ spacing: number[]; radius: number[] }> {
+    const spacing = scaleSettings.current.spacingCollectionId
+        ? await deriveScaleFromCollection(scaleSettings.current.spacingCollectionId)
+        : null;
+    const radius = scaleSettings.current.radiusCollectionId
+        ? await deriveScaleFromCollection(scaleSettings.current.radiusCollectionId)
+        : null;
+
+    return {
+        spacing: spacing ?? scaleSettings.current.spacingScale,
+        radius: radius ?? scaleSettings.current.radiusScale
+    };
+}
+
+// Verifica se o valor está na escala, respeitando tolerância e a regra do zero
+function isOnScale(value: number, scale: number[]): boolean {
+    if (value === 0) return scaleSettings.current.allowZero;
+    return scale.some(step => Math.abs(step - value) <= scaleSettings.current.tolerance);
+}
+
 // 🔥 Extrai o peso legível do fontStyle do Figma
 function extractReadableWeight(fontStyle: string): string {
     const styleLower = fontStyle.toLowerCase();
@@ -132,25 +622,416 @@ function extractReadableWeight(fontStyle: string): string {
     return "Regular";
 }
 
-function calculateTextStyleDistance(
-    source: { fontFamily: string; fontSize?: number; fontWeight?: any },
-    target: { fontFamily?: string; fontSize?: number; fontWeight?: any }
-): number {
-    let distance = 0;
+/* ---------- VARIABLE MODES ---------- */
+
+// 🔥 Modo escolhido manualmente por coleção (collectionId → modeId); sem entrada = modo do node
+let auditModeOverrides: { [collectionId: string]: string } = {};
+
+// Limite de saltos ao seguir aliases (evita ciclos)
+const MAX_ALIAS_DEPTH = 10;
+
+type ModeSelection = { [collectionId: string]: string };
+type CollectionLookup = Map<string, Promise<VariableCollection | null>>;
+
+interface ColorTokenMode {
+    modeId: string;
+    modeName: string;
+    hex: string;
+}
 
-    if (source.fontFamily !== target.fontFamily) {
-        distance += 100;
+interface ColorToken {
+    name: string;
+    hex: string;
+    styleId?: string;
+    type?: "VARIABLE" | "STYLE";
+    collectionId?: string;
+    modes?: ColorTokenMode[];
+    crossCollectionAlias?: boolean; // alias para outra coleção: valor depende do modo do node
+    source?: TokenSource;
+    libraryName?: string;
+    scopes?: VariableScope[];
+}
+
+interface SpacingTokenMode {
+    modeId: string;
+    modeName: string;
+    value: number;
+}
+
+interface SpacingToken {
+    styleId: string;
+    name: string;
+    value: number | null; // null: variável de biblioteca ainda não importada
+    type: string;
+    collectionId?: string;
+    modes?: SpacingTokenMode[];
+    crossCollectionAlias?: boolean;
+    source?: TokenSource;
+    libraryName?: string;
+    scopes?: VariableScope[];
+}
+
+interface AuditModeOption {
+    collectionId: string;
+    collectionName: string;
+    modes: { modeId: string; name: string }[];
+    selectedModeId: string;
+    source: "manual" | "explicit" | "inherited" | "default";
+}
+
+function isVariableAlias(value: VariableValue | undefined): value is VariableAlias {
+    return !!value && typeof value === "object" && "type" in value && value.type === "VARIABLE_ALIAS";
+}
+
+function isColorValue(value: VariableValue | null): value is RGB | RGBA {
+    return !!value && typeof value === "object" && "r" in value;
+}
+
+// Busca a coleção uma única vez por coleta
+function lookupCollection(id: string, lookup: CollectionLookup): Promise<VariableCollection | null> {
+    let pending = lookup.get(id);
+    if (!pending) {
+        pending = figma.variables.getVariableCollectionByIdAsync(id).catch(() => null);
+        lookup.set(id, pending);
     }
+    return pending;
+}
 
-    if (source.fontSize && target.fontSize) {
-        distance += Math.abs(source.fontSize - target.fontSize);
+// Segue a cadeia de aliases até um valor concreto. Dentro da mesma coleção o modo é mantido;
+// ao atravessar para outra coleção usa o modo do node nela (modeSelection) ou o padrão dela.
+// trace.crossed indica que o resultado depende do node
+async function resolveVariableValue(
+    variable: Variable,
+    modeId: string,
+    lookup: CollectionLookup,
+    modeSelection: ModeSelection = auditModeOverrides,
+    trace?: { crossed: boolean },
+    depth = 0
+): Promise<VariableValue | null> {
+    let value = variable.valuesByMode[modeId];
+    if (value === undefined) {
+        const collection = await lookupCollection(variable.variableCollectionId, lookup);
+        if (!collection) return null;
+        value = variable.valuesByMode[collection.defaultModeId];
     }
+    if (!isVariableAlias(value)) return value ?? null;
+    if (depth >= MAX_ALIAS_DEPTH) return null;
 
-    const sourceWeight = typeof source.fontWeight === "number" ? source.fontWeight : 400;
-    const targetWeight = typeof target.fontWeight === "number" ? target.fontWeight : 400;
-    distance += Math.abs(sourceWeight - targetWeight) / 100;
+    const target = await figma.variables.getVariableByIdAsync(value.id).catch(() => null);
+    if (!target) return null;
 
-    return distance;
+    let targetModeId = modeId;
+    if (target.variableCollectionId !== variable.variableCollectionId) {
+        if (trace) trace.crossed = true;
+        const targetCollection = await lookupCollection(target.variableCollectionId, lookup);
+        targetModeId = modeSelection[target.variableCollectionId] ?? targetCollection?.defaultModeId ?? "";
+    }
+    return resolveVariableValue(target, targetModeId, lookup, modeSelection, trace, depth + 1);
+}
+
+// Resolve o valor da variável em cada modo da sua coleção (sem node: modos escolhidos na auditoria)
+async function resolveVariableModes(
+    variable: Variable,
+    lookup: CollectionLookup
+): Promise<{
+    defaultModeId: string;
+    values: { modeId: string; modeName: string; value: VariableValue }[];
+    crossesCollections: boolean;
+} | null> {
+    const collection = await lookupCollection(variable.variableCollectionId, lookup);
+    // Coleções de biblioteca podem não ser legíveis: usa os modos presentes na variável
+    const modes = collection
+        ? collection.modes
+        : Object.keys(variable.valuesByMode).map(modeId => ({ modeId, name: modeId }));
+    if (modes.length === 0) return null;
+
+    const values: { modeId: string; modeName: string; value: VariableValue }[] = [];
+    const trace = { crossed: false };
+    for (const mode of modes) {
+        const value = await resolveVariableValue(variable, mode.modeId, lookup, auditModeOverrides, trace);
+        if (value !== null) values.push({ modeId: mode.modeId, modeName: mode.name, value });
+    }
+    return {
+        defaultModeId: collection ? collection.defaultModeId : modes[0].modeId,
+        values,
+        crossesCollections: trace.crossed
+    };
+}
+
+// 🔥 Tokens com alias para outra coleção dependem do modo do node nela. O cache da página guarda
+// o valor sem node, então eles são resolvidos de novo (no modo selecionado) na hora de ranquear
+async function resolveTokensInSelection<T extends { styleId?: string; crossCollectionAlias?: boolean }>(
+    tokens: T[],
+    modeSelection: ModeSelection,
+    withValue: (token: T, modeId: string, value: VariableValue) => T
+): Promise<T[]> {
+    if (!tokens.some(t => t.crossCollectionAlias)) return tokens;
+
+    const lookup: CollectionLookup = new Map();
+    return Promise.all(tokens.map(async token => {
+        if (!token.crossCollectionAlias || !token.styleId) return token;
+        const variable = await figma.variables.getVariableByIdAsync(token.styleId).catch(() => null);
+        if (!variable) return token;
+
+        const collection = await lookupCollection(variable.variableCollectionId, lookup);
+        const modeId = modeSelection[variable.variableCollectionId] ?? collection?.defaultModeId;
+        if (!modeId) return token;
+
+        const value = await resolveVariableValue(variable, modeId, lookup, modeSelection);
+        return value === null ? token : withValue(token, modeId, value);
+    }));
+}
+
+// Valor resolvido no modo selecionado vira o valor do token e do modo correspondente
+function colorTokenInMode(token: ColorToken, modeId: string, value: VariableValue): ColorToken {
+    if (!isColorValue(value)) return token;
+    const hex = rgbToHex(value);
+    return { ...token, hex, modes: token.modes?.map(m => m.modeId === modeId ? { ...m, hex } : m) };
+}
+
+function spacingTokenInMode(token: SpacingToken, modeId: string, value: VariableValue): SpacingToken {
+    if (typeof value !== "number") return token;
+    return { ...token, value, modes: token.modes?.map(m => m.modeId === modeId ? { ...m, value } : m) };
+}
+
+// Modo do token na seleção atual; undefined = mantém o valor do modo padrão
+function pickTokenMode<T extends { modeId: string }>(
+    token: { collectionId?: string; modes?: T[] },
+    modeSelection: ModeSelection
+): T | undefined {
+    if (!token.collectionId || !token.modes || token.modes.length === 0) return undefined;
+    const selected = modeSelection[token.collectionId];
+    return selected ? token.modes.find(m => m.modeId === selected) : undefined;
+}
+
+// Modos contra os quais o node é auditado: explícito/herdado do node, sobreposto pela escolha manual
+function getAuditModeSelection(node: BaseNode | null): ModeSelection {
+    const inherited = node && isSceneNode(node as SceneNode) ? (node as SceneNode).resolvedVariableModes : {};
+    return { ...inherited, ...auditModeOverrides };
+}
+
+// De onde vem o modo do node para a coleção: definido nele, herdado de um ancestral ou padrão
+function findModeSource(node: BaseNode, collectionId: string): "explicit" | "inherited" | "default" {
+    let current: BaseNode | null = node;
+    while (current) {
+        if ("explicitVariableModes" in current && current.explicitVariableModes[collectionId]) {
+            return current === node ? "explicit" : "inherited";
+        }
+        current = current.parent;
+    }
+    return "default";
+}
+
+// Opções de modo para as coleções com mais de um modo entre os tokens sugeridos
+async function describeAuditModes(node: BaseNode | null, collectionIds: string[]): Promise<AuditModeOption[]> {
+    const lookup: CollectionLookup = new Map();
+    const selection = getAuditModeSelection(node);
+    const options: AuditModeOption[] = [];
+
+    for (const collectionId of Array.from(new Set(collectionIds))) {
+        const collection = await lookupCollection(collectionId, lookup);
+        if (!collection || collection.modes.length < 2) continue;
+
+        const source: AuditModeOption["source"] = auditModeOverrides[collectionId]
+            ? "manual"
+            : node ? findModeSource(node, collectionId) : "default";
+
+        options.push({
+            collectionId,
+            collectionName: collection.name,
+            modes: collection.modes.map(m => ({ modeId: m.modeId, name: m.name })),
+            selectedModeId: selection[collectionId] ?? collection.defaultModeId,
+            source
+        });
+    }
+    return options;
+}
+
+/* ---------- TEAM LIBRARY ---------- */
+
+// De onde vem a sugestão: definida no arquivo, já usada na página ou de biblioteca habilitada
+type TokenSource = "local" | "page" | "library";
+
+// Variável de biblioteca ainda não importada: só os metadados que a API expõe sem importar
+interface LibraryVariableRef {
+    key: string;
+    name: string;
+    libraryName: string;
+}
+
+// 🔥 Variáveis de bibliotecas por tipo — não dependem da página, vivem a sessão inteira
+let cachedLibraryVariables: { [resolvedType: string]: LibraryVariableRef[] } = {};
+
+// Id de token de biblioteca ainda não importada: a key vem depois do prefixo
+const LIBRARY_TOKEN_PREFIX = "library:";
+
+function libraryTokenId(key: string): string {
+    return `${LIBRARY_TOKEN_PREFIX}${key}`;
+}
+
+// Lista as variáveis das coleções de bibliotecas habilitadas só pelos metadados (key, nome, tipo).
+// Nada é importado aqui: o valor só é conhecido quando o token é aplicado
+async function loadLibraryVariables(resolvedType: "COLOR" | "FLOAT"): Promise<LibraryVariableRef[]> {
+    if (cachedLibraryVariables[resolvedType]) return cachedLibraryVariables[resolvedType];
+
+    const collections = await figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync().catch(() => []);
+    const refs: LibraryVariableRef[] = [];
+
+    for (const collection of collections) {
+        const libraryVars = await figma.teamLibrary.getVariablesInLibraryCollectionAsync(collection.key).catch(() => []);
+        for (const v of libraryVars) {
+            if (v.resolvedType === resolvedType) refs.push({ key: v.key, name: v.name, libraryName: collection.libraryName });
+        }
+    }
+
+    console.log(`   📚 Variáveis ${resolvedType} de bibliotecas: ${refs.length}`);
+    cachedLibraryVariables[resolvedType] = refs;
+    return refs;
+}
+
+// Quantas variáveis de biblioteca importar por tipo para conhecer o valor; as demais ficam só nos metadados
+const LIBRARY_IMPORT_LIMIT = 100;
+
+// Variáveis de biblioteca sem valor conhecido exibidas na sugestão (o resto vira só a contagem)
+const LIBRARY_PENDING_LIMIT = 20;
+
+// 🔥 Variáveis de biblioteca importadas por tipo (key → variável) — também vivem a sessão inteira
+let cachedLibraryImports: { [resolvedType: string]: Promise<Map<string, Variable>> } = {};
+
+// Importa as primeiras variáveis de biblioteca de cada tipo, uma vez por sessão, para ranquear e
+// filtrar por escopo como as locais. As demais continuam só por metadados e são importadas ao aplicar
+function importLibraryVariables(resolvedType: "COLOR" | "FLOAT"): Promise<Map<string, Variable>> {
+    if (!cachedLibraryImports[resolvedType]) {
+        cachedLibraryImports[resolvedType] = (async () => {
+            const refs = (await loadLibraryVariables(resolvedType)).slice(0, LIBRARY_IMPORT_LIMIT);
+            const variables = await Promise.all(
+                refs.map(ref => figma.variables.importVariableByKeyAsync(ref.key).catch(() => null))
+            );
+            const imported = new Map<string, Variable>();
+            refs.forEach((ref, i) => {
+                const variable = variables[i];
+                if (variable) imported.set(ref.key, variable);
+            });
+            console.log(`   📚 Variáveis ${resolvedType} de bibliotecas importadas: ${imported.size}`);
+            return imported;
+        })();
+    }
+    return cachedLibraryImports[resolvedType];
+}
+
+// Variáveis de biblioteca sem valor: no máximo LIBRARY_PENDING_LIMIT, agrupadas por biblioteca
+function limitPendingLibraryTokens<T extends { libraryName?: string }>(tokens: T[]): { tokens: T[]; more: number } {
+    const shown = tokens
+        .slice(0, LIBRARY_PENDING_LIMIT)
+        .sort((a, b) => (a.libraryName ?? "").localeCompare(b.libraryName ?? ""));
+    return { tokens: shown, more: tokens.length - shown.length };
+}
+
+// Variável do token; as de biblioteca são importadas pela key só agora, na hora de vincular
+async function getTokenVariable(styleId: string): Promise<Variable | null> {
+    if (styleId.startsWith(LIBRARY_TOKEN_PREFIX)) {
+        return figma.variables.importVariableByKeyAsync(styleId.slice(LIBRARY_TOKEN_PREFIX.length)).catch(() => null);
+    }
+    return figma.variables.getVariableByIdAsync(styleId).catch(() => null);
+}
+
+/* ---------- VARIABLE SCOPES ---------- */
+
+// Campo de onde veio a finding — define quais escopos de variável podem ser vinculados nele
+type AuditField = "frameFill" | "shapeFill" | "textFill" | "stroke" | "gap" | "padding" | "radius";
+
+const FIELD_SCOPES: { [field in AuditField]: VariableScope[] } = {
+    frameFill: ["ALL_SCOPES", "ALL_FILLS", "FRAME_FILL"],
+    shapeFill: ["ALL_SCOPES", "ALL_FILLS", "SHAPE_FILL"],
+    textFill: ["ALL_SCOPES", "ALL_FILLS", "TEXT_FILL"],
+    stroke: ["ALL_SCOPES", "STROKE_COLOR"],
+    gap: ["ALL_SCOPES", "GAP"],
+    padding: ["ALL_SCOPES", "GAP"],
+    radius: ["ALL_SCOPES", "CORNER_RADIUS"]
+};
+
+const FIELD_LABELS: { [field in AuditField]: string } = {
+    frameFill: "preenchimento de frame",
+    shapeFill: "preenchimento de forma",
+    textFill: "cor de texto",
+    stroke: "borda",
+    gap: "gap",
+    padding: "padding",
+    radius: "raio"
+};
+
+const SCOPE_LABELS: { [scope: string]: string } = {
+    ALL_SCOPES: "Todos",
+    ALL_FILLS: "Todos os preenchimentos",
+    FRAME_FILL: "Preenchimento de frame",
+    SHAPE_FILL: "Preenchimento de forma",
+    TEXT_FILL: "Cor de texto",
+    STROKE_COLOR: "Borda",
+    EFFECT_COLOR: "Efeitos",
+    GAP: "Gap / padding",
+    CORNER_RADIUS: "Raio",
+    WIDTH_HEIGHT: "Largura / altura",
+    STROKE_FLOAT: "Espessura de borda",
+    EFFECT_FLOAT: "Efeitos",
+    OPACITY: "Opacidade",
+    FONT_SIZE: "Tamanho de fonte",
+    LINE_HEIGHT: "Altura de linha",
+    LETTER_SPACING: "Espaçamento entre letras",
+    PARAGRAPH_SPACING: "Espaçamento de parágrafo",
+    PARAGRAPH_INDENT: "Recuo de parágrafo",
+    FONT_WEIGHT: "Peso de fonte",
+    TEXT_CONTENT: "Conteúdo de texto"
+};
+
+const FRAME_FILL_TYPES = ["FRAME", "COMPONENT", "COMPONENT_SET", "INSTANCE", "SECTION"];
+
+function getPaintField(node: SceneNode, isStroke: boolean): AuditField {
+    if (isStroke) return "stroke";
+    if (node.type === "TEXT") return "textFill";
+    return FRAME_FILL_TYPES.includes(node.type) ? "frameFill" : "shapeFill";
+}
+
+function spacingTypeToField(type: string): AuditField {
+    if (type === "Gap") return "gap";
+    if (type.startsWith("Padding")) return "padding";
+    return "radius";
+}
+
+// Estilos não têm escopo: só variáveis são filtradas
+function allowsField(token: { scopes?: readonly VariableScope[] }, field: AuditField): boolean {
+    if (!token.scopes) return true;
+    return token.scopes.some(scope => FIELD_SCOPES[field].includes(scope));
+}
+
+function describeScopes(scopes: readonly VariableScope[]): string {
+    if (scopes.length === 0) return "Sem escopo (oculta em todos os campos)";
+    return scopes.map(scope => SCOPE_LABELS[scope] ?? scope).join(", ");
+}
+
+// 🔥 Separa as sugestões permitidas no campo das ocultas, explicando o motivo de cada uma
+function partitionByScope<T extends { name: string; scopes?: VariableScope[] }>(
+    tokens: T[],
+    field: AuditField | undefined
+): { allowed: T[]; hidden: { name: string; reason: string }[] } {
+    if (!field) return { allowed: tokens, hidden: [] };
+
+    const allowed: T[] = [];
+    const hidden: { name: string; reason: string }[] = [];
+    for (const token of tokens) {
+        if (allowsField(token, field)) {
+            allowed.push(token);
+        } else {
+            hidden.push({ name: token.name, reason: `Escopo: ${describeScopes(token.scopes ?? [])}` });
+        }
+    }
+    return { allowed, hidden };
+}
+
+// Aviso para os nodes pulados ao aplicar uma variável fora do seu escopo
+function describeScopeSkip(variable: Variable, skippedFields: AuditField[]): string {
+    const fields = Array.from(new Set(skippedFields)).map(f => FIELD_LABELS[f]).join(", ");
+    return `"${removeTokenPrefix(variable.name)}" não pode ser usado em ${fields} (escopo: ${describeScopes(variable.scopes)}). ` +
+        `${skippedFields.length} elemento(s) não foram alterados.`;
 }
 
 // Coleta síncrona de IDs de variáveis FLOAT usadas em propriedades de espaçamento/raio
@@ -180,18 +1061,69 @@ function collectSpacingVarIdsSync(root: BaseNode): Set<string> {
     return varIds;
 }
 
-async function collectAppliedSpacingTokens(targetValue: number): Promise<any[]> {
+async function collectAppliedSpacingTokens(
+    targetValue: number,
+    modeSelection: ModeSelection = {},
+    field?: AuditField
+): Promise<{
+    tokens: (SpacingToken & { activeModeId?: string })[];
+    hidden: { name: string; reason: string }[];
+    library: { tokens: SpacingToken[]; more: number };
+}> {
+    const allTokens = await resolveTokensInSelection(await loadSpacingTokens(), modeSelection, spacingTokenInMode);
+
+    // Valor de cada token no modo auditado
+    const inMode = allTokens.map(token => {
+        const mode = pickTokenMode(token, modeSelection);
+        return mode ? { ...token, value: mode.value, activeModeId: mode.modeId } : token;
+    });
+
+    // Ordena pelo mais próximo ao valor (biblioteca importada incluída); escopos incompatíveis ficam de fora.
+    // Variáveis de biblioteca sem valor conhecido vão à parte, limitadas
+    const distance = (token: SpacingToken) => Math.abs((token.value as number) - targetValue);
+    const sorted = inMode.filter(t => t.value !== null).sort((a, b) => distance(a) - distance(b));
+    const { allowed, hidden } = partitionByScope(sorted, field);
+    const library = limitPendingLibraryTokens(inMode.filter(t => t.value === null));
+    return { tokens: allowed.slice(0, 10), hidden, library };
+}
+
+// Token de variável FLOAT com o valor de cada modo (aliases resolvidos); null se nenhum modo tem número
+async function buildSpacingVariableToken(
+    variable: Variable,
+    cleanName: string,
+    lookup: CollectionLookup
+): Promise<SpacingToken | null> {
+    const resolvedModes = await resolveVariableModes(variable, lookup);
+    if (!resolvedModes) return null;
+    const modes: SpacingTokenMode[] = resolvedModes.values
+        .filter(m => typeof m.value === "number")
+        .map(m => ({ modeId: m.modeId, modeName: m.modeName, value: m.value as number }));
+    const defaultMode = modes.find(m => m.modeId === resolvedModes.defaultModeId) ?? modes[0];
+    if (!defaultMode) return null;
+
+    return {
+        styleId: variable.id,
+        name: cleanName,
+        value: defaultMode.value,
+        type: "VARIABLE",
+        collectionId: variable.variableCollectionId,
+        modes,
+        crossCollectionAlias: resolvedModes.crossesCollections,
+        scopes: variable.scopes
+    };
+}
+
+// Coleta todos os tokens FLOAT (aplicados na página + locais), com cache por página
+async function loadSpacingTokens(): Promise<SpacingToken[]> {
     const pageId = figma.currentPage.id;
 
-    // ⚡ Cache — retorna o cache e re-ordena pelo valor mais próximo
+    // ⚡ Cache
     if (cachedSpacingTokens && cachedSpacingTokens.length > 0 && cachedPageId === pageId) {
         console.log("⚡ Usando cache de spacing tokens");
-        return [...cachedSpacingTokens].sort((a, b) =>
-            Math.abs(a.value - targetValue) - Math.abs(b.value - targetValue)
-        );
+        return cachedSpacingTokens;
     }
 
-    console.log("🔍 Coletando tokens de espaçamento para valor:", targetValue);
+    console.log("🔍 Coletando tokens de espaçamento...");
     const t0 = Date.now();
 
     // ── Fase 1: scan síncrono de toda a página por boundVariables FLOAT já aplicados ──
@@ -211,25 +1143,43 @@ async function collectAppliedSpacingTokens(targetValue: number): Promise<any[]>
         allIds.map(id => figma.variables.getVariableByIdAsync(id).catch(() => null))
     );
 
-    const tokenSet = new Map<string, any>();
+    const lookup: CollectionLookup = new Map();
+    const tokenSet = new Map<string, SpacingToken>();
     for (const variable of resolved) {
         if (!variable || variable.resolvedType !== "FLOAT") continue;
-        const modes = Object.keys(variable.valuesByMode);
-        if (modes.length === 0) continue;
-        const val = variable.valuesByMode[modes[0]];
-        if (typeof val !== "number") continue;
+        if (tokenSet.has(variable.id)) continue;
 
         const cleanName = removeTokenPrefix(variable.name);
         if (!isValidTokenName(cleanName)) continue;
 
-        if (!tokenSet.has(variable.id)) {
-            tokenSet.set(variable.id, {
-                styleId: variable.id,
-                name: cleanName,
-                value: val,
-                type: "VARIABLE"
-            });
+        // Resolve aliases em todos os modos da coleção
+        const token = await buildSpacingVariableToken(variable, cleanName, lookup);
+        if (token) tokenSet.set(variable.id, { ...token, source: varIds.has(variable.id) ? "page" : "local" });
+    }
+
+    // ── Fase 4: variáveis FLOAT das bibliotecas habilitadas (as já presentes no arquivo ficam de fora).
+    // As importadas entram com valor e escopo; as demais só pelos metadados
+    const knownKeys = new Set(resolved.filter((v): v is Variable => !!v).map(v => v.key));
+    const imported = await importLibraryVariables("FLOAT");
+    for (const ref of await loadLibraryVariables("FLOAT")) {
+        if (knownKeys.has(ref.key)) continue;
+        const cleanName = removeTokenPrefix(ref.name);
+        if (!isValidTokenName(cleanName)) continue;
+
+        const variable = imported.get(ref.key);
+        const token = variable ? await buildSpacingVariableToken(variable, cleanName, lookup) : null;
+        if (token) {
+            tokenSet.set(token.styleId, { ...token, source: "library", libraryName: ref.libraryName });
+            continue;
         }
+        tokenSet.set(libraryTokenId(ref.key), {
+            styleId: libraryTokenId(ref.key),
+            name: cleanName,
+            value: null,
+            type: "VARIABLE",
+            source: "library",
+            libraryName: ref.libraryName
+        });
     }
 
     const allTokens = Array.from(tokenSet.values());
@@ -239,14 +1189,22 @@ async function collectAppliedSpacingTokens(targetValue: number): Promise<any[]>
     cachedSpacingTokens = allTokens;
     cachedPageId = pageId;
 
-    // Retorna ordenado pelo mais próximo ao valor
-    return [...allTokens].sort((a, b) =>
-        Math.abs(a.value - targetValue) - Math.abs(b.value - targetValue)
-    ).slice(0, 10);
+    return allTokens;
 }
 
 // 🔥 CORRIGIDO: Verifica se um paint tem token válido
 async function hasValidColorToken(node: SceneNode, paint: Paint, isStroke: boolean): Promise<boolean> {
+    const styleId = isStroke
+        ? ("strokeStyleId" in node ? node.strokeStyleId : "")
+        : ("fillStyleId" in node ? node.fillStyleId : "");
+    const styles = typeof styleId === "string" && styleId !== ""
+        ? await resolveStylesBatch([styleId])
+        : new Map<string, BaseStyle | null>();
+    return hasValidColorTokenSync(node, paint, isStroke, styles);
+}
+
+// Mesma verificação, com os estilos já resolvidos em lote (análise em blocos)
+function hasValidColorTokenSync(node: SceneNode, paint: Paint, isStroke: boolean, styles: Map<string, BaseStyle | null>): boolean {
     // 1️⃣ Variable
     if (paint.type === "SOLID") {
         if ("boundVariables" in paint && paint.boundVariables && "color" in paint.boundVariables) {
@@ -254,41 +1212,34 @@ async function hasValidColorToken(node: SceneNode, paint: Paint, isStroke: boole
         }
     }
 
+    // 1️⃣b Gradiente: só conta como tokenizado quando todos os stops têm variável
+    if (isGradientPaint(paint) && paint.gradientStops.every(stop => stop.boundVariables?.color)) {
+        return true;
+    }
+
     // 2️⃣ Fill Style (apenas se NÃO for stroke)
     if (!isStroke && !paint.type.startsWith("GRADIENT") && "fillStyleId" in node) {
         const styleId = node.fillStyleId;
-        if (typeof styleId === "string" && styleId !== "") {
-            try {
-                const style = await figma.getStyleByIdAsync(styleId);
-                if (style) {
-                    return VALID_TOKEN_PREFIXES.some(prefix => style.name.startsWith(prefix));
-                }
-            } catch (e) {
-                // Style não encontrado
-            }
+        const style = typeof styleId === "string" && styleId !== "" ? styles.get(styleId) : null;
+        if (style) {
+            return hasValidTokenPrefix(style.name);
         }
     }
 
     // 3️⃣ Stroke Style (apenas se for stroke)
     if (isStroke && !paint.type.startsWith("GRADIENT") && "strokeStyleId" in node) {
         const styleId = node.strokeStyleId;
-        if (typeof styleId === "string" && styleId !== "") {
-            try {
-                const style = await figma.getStyleByIdAsync(styleId);
-                if (style) {
-                    return VALID_TOKEN_PREFIXES.some(prefix => style.name.startsWith(prefix));
-                }
-            } catch (e) {
-                // Style não encontrado
-            }
+        const style = typeof styleId === "string" && styleId !== "" ? styles.get(styleId) : null;
+        if (style) {
+            return hasValidTokenPrefix(style.name);
         }
     }
 
     return false;
 }
 
-// Verifica se um nó de texto tem token de tipografia válido
-async function hasValidTextToken(node: TextNode): Promise<boolean> {
+// Verifica se um nó de texto tem token de tipografia válido (textos mistos são auditados por trecho)
+function hasValidTextToken(node: TextNode): boolean {
     if (node.textStyleId && typeof node.textStyleId === "string" && node.textStyleId !== "") {
         return true;
     }
@@ -307,12 +1258,14 @@ interface RawCollected {
     styleIds: Set<string>;                          // fillStyleId / strokeStyleId
     varIdToSolidHex: Map<string, string>;           // variableId → cor resolvida no momento
     textStyleIds: Set<string>;
+    effectStyleIds: Set<string>;
 }
 
 function collectIdsSync(root: BaseNode): RawCollected {
     const styleIds = new Set<string>();
     const varIdToSolidHex = new Map<string, string>();
     const textStyleIds = new Set<string>();
+    const effectStyleIds = new Set<string>();
 
     function walk(node: BaseNode): void {
         if (!isSceneNode(node as SceneNode)) {
@@ -339,6 +1292,11 @@ function collectIdsSync(root: BaseNode): RawCollected {
             textStyleIds.add(n.textStyleId);
         }
 
+        // effectStyleId
+        if ("effectStyleId" in n && typeof n.effectStyleId === "string" && n.effectStyleId !== "") {
+            effectStyleIds.add(n.effectStyleId);
+        }
+
         // variáveis de cor (boundVariables em fills / strokes)
         // O id da variável está disponível de forma síncrona no boundVariables
         const paints: Paint[] = [];
@@ -346,6 +1304,17 @@ function collectIdsSync(root: BaseNode): RawCollected {
         if ("strokes" in n && Array.isArray(n.strokes)) paints.push(...(n.strokes as Paint[]));
 
         for (const paint of paints) {
+            // Variáveis vinculadas a stops de gradiente também são tokens de cor
+            if (isGradientPaint(paint)) {
+                for (const stop of paint.gradientStops) {
+                    const stopVarId = stop.boundVariables?.color?.id;
+                    if (stopVarId && !varIdToSolidHex.has(stopVarId)) {
+                        varIdToSolidHex.set(stopVarId, rgbToHex(stop.color));
+                    }
+                }
+                continue;
+            }
+
             if (paint.type !== "SOLID") continue;
             const bv = (paint as any).boundVariables;
             if (bv && bv.color?.type === "VARIABLE_ALIAS" && bv.color.id) {
@@ -363,23 +1332,83 @@ function collectIdsSync(root: BaseNode): RawCollected {
     }
 
     walk(root);
-    return { styleIds, varIdToSolidHex, textStyleIds };
+    return { styleIds, varIdToSolidHex, textStyleIds, effectStyleIds };
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// FASE 2 — Resolução ASYNC em lote: executa todas as chamadas de API em
-//           paralelo com Promise.all, eliminando a serialização do loop.
-// ─────────────────────────────────────────────────────────────────────────────
+// 🔥 Ordena os tokens de cor pela distância perceptual (CIEDE2000) até a cor alvo,
+//    comparando com o valor de cada token no modo auditado
+function rankColorTokens(
+    tokens: ColorToken[],
+    targetHex: string,
+    modeSelection: ModeSelection = {}
+): (ColorToken & { activeModeId?: string; distance: number | null; matchLevel: "exact" | "near" | null })[] {
+    const inMode = tokens.map(token => {
+        const mode = pickTokenMode(token, modeSelection);
+        return mode ? { ...token, hex: mode.hex, activeModeId: mode.modeId } : token;
+    });
+
+    const targetRgb = hexToRgb(targetHex);
+    if (!targetRgb) {
+        return inMode.map(t => ({ ...t, distance: null, matchLevel: null }));
+    }
+    const targetLab = rgbToLab(targetRgb);
+
+    return inMode
+        .map(token => {
+            const rgb = hexToRgb(token.hex);
+            const distance = rgb ? deltaE2000(targetLab, rgbToLab(rgb)) : Infinity;
+            const matchLevel: "exact" | "near" | null =
+                token.hex.toUpperCase() === targetHex.toUpperCase() ? "exact" :
+                    distance <= NEAR_MATCH_DELTA_E ? "near" : null;
+            return { ...token, distance, matchLevel };
+        })
+        .sort((a, b) => a.distance - b.distance)
+        // Infinity não sobrevive ao postMessage — vira null
+        .map(t => ({ ...t, distance: isFinite(t.distance) ? t.distance : null }));
+}
+
+// Token de variável de cor com o hex de cada modo (aliases resolvidos)
+async function buildColorVariableToken(
+    variable: Variable,
+    cleanName: string,
+    lookup: CollectionLookup,
+    fallbackHex?: string
+): Promise<ColorToken> {
+    const resolvedModes = await resolveVariableModes(variable, lookup);
+    const modes: ColorTokenMode[] = (resolvedModes?.values ?? [])
+        .filter(m => isColorValue(m.value))
+        .map(m => ({ modeId: m.modeId, modeName: m.modeName, hex: rgbToHex(m.value as RGB) }));
+    const defaultMode = modes.find(m => m.modeId === resolvedModes?.defaultModeId) ?? modes[0];
+
+    return {
+        name: cleanName,
+        hex: defaultMode?.hex ?? fallbackHex ?? "#000000",
+        styleId: variable.id,
+        type: "VARIABLE",
+        collectionId: variable.variableCollectionId,
+        modes,
+        crossCollectionAlias: resolvedModes?.crossesCollections,
+        scopes: variable.scopes
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// FASE 2 — Resolução ASYNC em lote: executa todas as chamadas de API em
+//           paralelo com Promise.all, eliminando a serialização do loop.
+// ─────────────────────────────────────────────────────────────────────────────
 
 async function collectAppliedColorTokens(
-    _frames: (FrameNode | ComponentNode | InstanceNode)[]
-): Promise<{ name: string; hex: string; styleId?: string }[]> {
+    _frames: (FrameNode | ComponentNode | InstanceNode)[],
+    targetHex?: string,
+    modeSelection: ModeSelection = {}
+): Promise<(ColorToken & { activeModeId?: string; distance?: number | null; matchLevel?: "exact" | "near" | null })[]> {
 
     const pageId = figma.currentPage.id;
 
     if (cachedColorTokens && cachedColorTokens.length > 0 && cachedPageId === pageId) {
         console.log("⚡ Usando cache de color tokens");
-        return cachedColorTokens;
+        if (!targetHex) return cachedColorTokens;
+        return rankColorTokens(await resolveTokensInSelection(cachedColorTokens, modeSelection, colorTokenInMode), targetHex, modeSelection);
     }
 
     console.log("🔍 Coletando tokens de cor (toda a página, síncrono + batch async)...");
@@ -389,13 +1418,14 @@ async function collectAppliedColorTokens(
     const { styleIds, varIdToSolidHex } = collectIdsSync(figma.currentPage);
     console.log(`   📊 Fase 1 concluída em ${Date.now() - t0}ms — styleIds: ${styleIds.size}, varIds: ${varIdToSolidHex.size}`);
 
-    const tokenSet = new Map<string, { name: string; hex: string; styleId?: string }>();
+    const tokenSet = new Map<string, ColorToken>();
 
     // ── Fase 2a: resolve variáveis em paralelo ─────────────────────────────────
     const varIds = Array.from(varIdToSolidHex.keys());
     const varResults = await Promise.all(
         varIds.map(id => figma.variables.getVariableByIdAsync(id).catch(() => null))
     );
+    const lookup: CollectionLookup = new Map();
     for (let i = 0; i < varIds.length; i++) {
         const variable = varResults[i];
         if (!variable || variable.resolvedType !== "COLOR") continue;
@@ -403,11 +1433,8 @@ async function collectAppliedColorTokens(
         if (!isValidTokenName(cleanName)) continue;
         const varKey = `var_${variable.id}`;
         if (!tokenSet.has(varKey)) {
-            tokenSet.set(varKey, {
-                name: cleanName,
-                hex: varIdToSolidHex.get(varIds[i]) ?? "#000000",
-                styleId: variable.id
-            });
+            const token = await buildColorVariableToken(variable, cleanName, lookup, varIdToSolidHex.get(varIds[i]));
+            tokenSet.set(varKey, { ...token, source: "page" });
         }
     }
 
@@ -424,7 +1451,7 @@ async function collectAppliedColorTokens(
         if (firstPaint.type !== "SOLID") continue;
         const cleanName = removeTokenPrefix(paintStyle.name);
         if (!isValidTokenName(cleanName)) continue;
-        tokenSet.set(style.id, { name: cleanName, hex: rgbToHex(firstPaint.color), styleId: style.id });
+        tokenSet.set(style.id, { name: cleanName, hex: rgbToHex(firstPaint.color), styleId: style.id, type: "STYLE", source: "page" });
     }
 
     // ── Fallback: estilos locais quando nada foi encontrado ───────────────────
@@ -432,40 +1459,73 @@ async function collectAppliedColorTokens(
         console.log("   ⚠️ Sem tokens na página, buscando estilos locais...");
         const localStyles = await figma.getLocalPaintStylesAsync().catch(() => []);
         for (const style of localStyles) {
-            if (!VALID_TOKEN_PREFIXES.some(prefix => style.name.startsWith(prefix))) continue;
+            if (!hasValidTokenPrefix(style.name)) continue;
             if (!style.paints?.length) continue;
             const fp = style.paints[0];
             if (fp.type !== "SOLID") continue;
             const cleanName = removeTokenPrefix(style.name);
             if (isValidTokenName(cleanName)) {
-                tokenSet.set(style.id, { name: cleanName, hex: rgbToHex(fp.color), styleId: style.id });
+                tokenSet.set(style.id, { name: cleanName, hex: rgbToHex(fp.color), styleId: style.id, type: "STYLE", source: "local" });
             }
         }
     }
 
+    // ── Fase 3: variáveis COLOR locais ─────────────────────────────────────────
+    const localColorVars = await figma.variables.getLocalVariablesAsync("COLOR").catch(() => [] as Variable[]);
+    for (const variable of localColorVars) {
+        const varKey = `var_${variable.id}`;
+        if (tokenSet.has(varKey)) continue;
+        const cleanName = removeTokenPrefix(variable.name);
+        if (!isValidTokenName(cleanName)) continue;
+        const token = await buildColorVariableToken(variable, cleanName, lookup);
+        if (!token.modes || token.modes.length === 0) continue;
+        tokenSet.set(varKey, { ...token, source: "local" });
+    }
+
+    // ── Fase 4: variáveis COLOR das bibliotecas habilitadas ───────────────────
+    // As importadas são ranqueadas como as locais; as demais (sem hex) ficam no fim e só são importadas ao aplicar
+    const knownKeys = new Set([...varResults, ...localColorVars].filter((v): v is Variable => !!v).map(v => v.key));
+    const imported = await importLibraryVariables("COLOR");
+    for (const ref of await loadLibraryVariables("COLOR")) {
+        if (knownKeys.has(ref.key)) continue;
+        const cleanName = removeTokenPrefix(ref.name);
+        if (!isValidTokenName(cleanName)) continue;
+
+        const variable = imported.get(ref.key);
+        const token = variable ? await buildColorVariableToken(variable, cleanName, lookup) : null;
+        if (token && token.modes && token.modes.length > 0) {
+            tokenSet.set(`var_${variable!.id}`, { ...token, source: "library", libraryName: ref.libraryName });
+            continue;
+        }
+        tokenSet.set(libraryTokenId(ref.key), {
+            name: cleanName,
+            hex: "",
+            styleId: libraryTokenId(ref.key),
+            type: "VARIABLE",
+            source: "library",
+            libraryName: ref.libraryName
+        });
+    }
+
     const result = Array.from(tokenSet.values());
     console.log(`   ✅ Tokens de cor resolvidos: ${result.length} em ${Date.now() - t0}ms`);
 
     cachedColorTokens = result;
     cachedPageId = pageId;
-    return result;
+    if (!targetHex) return result;
+    return rankColorTokens(await resolveTokensInSelection(result, modeSelection, colorTokenInMode), targetHex, modeSelection);
 }
 
 async function collectAppliedTextTokens(
     _frames: (FrameNode | ComponentNode | InstanceNode)[],
-    currentStyle?: { fontFamily: string; fontSize?: number; fontWeight?: any }
-): Promise<{ name: string; styleId: string; fontFamily?: string; fontStyle?: string; fontSize?: number }[]> {
+    currentStyle?: NodeSnapshot
+): Promise<(TextToken & Partial<TextMatchResult>)[]> {
 
     const pageId = figma.currentPage.id;
 
     if (cachedTextTokens && cachedTextTokens.length > 0 && cachedPageId === pageId) {
         console.log("⚡ Usando cache de text tokens");
-        if (currentStyle) {
-            return [...cachedTextTokens].sort((a, b) =>
-                calculateTextStyleDistance(currentStyle, a) - calculateTextStyleDistance(currentStyle, b)
-            );
-        }
-        return cachedTextTokens;
+        return currentStyle ? rankTextTokens(cachedTextTokens, currentStyle) : cachedTextTokens;
     }
 
     console.log("🔍 Coletando tokens de texto (toda a página, síncrono + batch async)...");
@@ -476,7 +1536,8 @@ async function collectAppliedTextTokens(
     console.log(`   📊 Fase 1 concluída em ${Date.now() - t0}ms — textStyleIds: ${textStyleIds.size}`);
 
     // Fallback para estilos locais se página não tem nenhum
-    if (textStyleIds.size === 0) {
+    const usedOnPage = textStyleIds.size > 0;
+    if (!usedOnPage) {
         const localStyles = await figma.getLocalTextStylesAsync().catch(() => []);
         for (const s of localStyles) textStyleIds.add(s.id);
     }
@@ -502,7 +1563,7 @@ async function collectAppliedTextTokens(
         Array.from(fontsToLoad).map(f => figma.loadFontAsync(JSON.parse(f) as FontName).catch(() => { }))
     );
 
-    const tokenSet = new Map<string, { name: string; styleId: string; fontFamily?: string; fontStyle?: string; fontSize?: number }>();
+    const tokenSet = new Map<string, TextToken>();
     for (const style of styleResults) {
         if (!style || style.type !== "TEXT") continue;
         const textStyle = style as TextStyle;
@@ -513,921 +1574,4760 @@ async function collectAppliedTextTokens(
             styleId: style.id,
             fontFamily: textStyle.fontName.family,
             fontStyle: textStyle.fontName.style,
-            fontSize: typeof textStyle.fontSize === "number" ? textStyle.fontSize : undefined
+            fontSize: typeof textStyle.fontSize === "number" ? textStyle.fontSize : undefined,
+            lineHeight: textStyle.lineHeight,
+            letterSpacing: textStyle.letterSpacing,
+            textCase: textStyle.textCase,
+            textDecoration: textStyle.textDecoration,
+            source: usedOnPage ? "page" : "local"
         });
     }
 
-    let tokens = Array.from(tokenSet.values());
+    const tokens = Array.from(tokenSet.values());
     console.log(`   ✅ Tokens de texto resolvidos: ${tokens.length} em ${Date.now() - t0}ms`);
 
     cachedTextTokens = tokens;
     cachedPageId = pageId;
 
-    if (currentStyle) {
-        tokens = [...tokens].sort((a, b) =>
-            calculateTextStyleDistance(currentStyle, a) - calculateTextStyleDistance(currentStyle, b)
+    return currentStyle ? rankTextTokens(tokens, currentStyle) : tokens;
+}
+
+// 🔥 Estilos de efeito: os usados na página (inclusive de bibliotecas) + os locais
+async function collectAppliedEffectTokens(
+    targetEffects?: AuditableEffect[]
+): Promise<(EffectToken & { distance?: number; matchLevel?: "exact" | "near" | null })[]> {
+
+    const pageId = figma.currentPage.id;
+    let tokens: EffectToken[];
+
+    if (cachedEffectTokens && cachedEffectTokens.length > 0 && cachedPageId === pageId) {
+        console.log("⚡ Usando cache de effect tokens");
+        tokens = cachedEffectTokens;
+    } else {
+        console.log("🔍 Coletando estilos de efeito...");
+        const t0 = Date.now();
+
+        // ── Fase 1: coleta síncrona ───────────────────────────────────────────
+        const { effectStyleIds } = collectIdsSync(figma.currentPage);
+
+        // ── Fase 2: estilos locais sempre entram como base ────────────────────
+        const localStyles = await figma.getLocalEffectStylesAsync().catch(() => [] as EffectStyle[]);
+        for (const s of localStyles) effectStyleIds.add(s.id);
+
+        const styleIdArr = Array.from(effectStyleIds);
+        const styleResults = await Promise.all(
+            styleIdArr.map(id => figma.getStyleByIdAsync(id).catch(() => null))
         );
+
+        const tokenSet = new Map<string, EffectToken>();
+        for (const style of styleResults) {
+            if (!style || style.type !== "EFFECT") continue;
+            const effects = getAuditableEffects((style as EffectStyle).effects);
+            if (effects.length === 0) continue;
+            tokenSet.set(style.id, {
+                name: removeTokenPrefix(style.name),
+                styleId: style.id,
+                effects,
+                label: describeEffectStack(effects),
+                remote: style.remote,
+                type: "STYLE"
+            });
+        }
+
+        tokens = Array.from(tokenSet.values());
+        console.log(`   ✅ Estilos de efeito resolvidos: ${tokens.length} em ${Date.now() - t0}ms`);
+
+        cachedEffectTokens = tokens;
+        cachedPageId = pageId;
     }
 
-    return tokens;
+    if (!targetEffects) return tokens;
+
+    return tokens
+        .map(token => {
+            const distance = effectStackDistance(targetEffects, token.effects);
+            const matchLevel: "exact" | "near" | null =
+                effectStackKey(token.effects) === effectStackKey(targetEffects) ? "exact" :
+                    distance <= NEAR_MATCH_EFFECT_DISTANCE ? "near" : null;
+            return { ...token, distance, matchLevel };
+        })
+        .sort((a, b) => a.distance - b.distance);
 }
 
-/* ---------- ANALYZE FUNCTIONS ---------- */
+/* ---------- SUPPRESSIONS ---------- */
 
-async function analyzeColors(
-    nodes: (FrameNode | ComponentNode | InstanceNode | SectionNode)[]
-) {
-    const map = new Map<
-        string,
-        { nodeId: string; node: SceneNode; paint: Paint; isStroke: boolean; label: string; name: string }[]
-    >();
+// 🔥 Findings ignoradas de propósito (ilustrações, logos de parceiros...), gravadas no próprio node
+const SUPPRESSION_KEY = "auditSuppression";
 
-    async function processPaint(node: SceneNode, paint: Paint, isStroke: boolean): Promise<void> {
-        if (!paint || paint.visible === false) return;
-        if (paint.type === "IMAGE" || paint.type === "VIDEO" || paint.type === "PATTERN") return;
+// Mostra as findings ignoradas nas listas (como showHiddenElements faz com camadas ocultas)
+let showSuppressedFindings = false;
 
-        const hasToken = await hasValidColorToken(node, paint, isStroke);
-        if (hasToken) return;
+type SuppressionLevel = "finding" | "node" | "subtree";
 
-        let label: string;
-        let name: string;
+interface Suppression {
+    reason: string;
+    createdAt: number;
+    expiresAt: number | null;
+    user: string;
+}
 
-        if (paint.type === "SOLID") {
-            label = rgbToHex(paint.color);
-        } else if (isGradientPaint(paint)) {
-            label = "Gradiente";
-        } else {
-            return;
-        }
+interface StoredSuppressions {
+    node?: Suppression;
+    subtree?: Suppression;
+    findings?: { [findingId: string]: Suppression };
+}
 
-        let styleId: string | undefined;
-        if ("fillStyleId" in node && !isStroke) {
-            styleId = node.fillStyleId as string | undefined;
-        } else if ("strokeStyleId" in node && isStroke) {
-            styleId = node.strokeStyleId as string | undefined;
-        }
+// Supressão já resolvida para uma finding: de onde veio e em que nível
+interface SuppressionMark extends Suppression {
+    level: SuppressionLevel;
+    sourceNodeId: string;
+}
 
-        if (styleId) {
-            try {
-                const style = await figma.getStyleByIdAsync(styleId);
-                name = style ? style.name : label;
-            } catch (e) {
-                name = label;
-            }
-        } else {
-            name = label;
-        }
+interface NodeSuppressions {
+    node?: SuppressionMark;
+    subtree?: SuppressionMark;
+    findings?: { [findingId: string]: SuppressionMark };
+}
 
-        const key = `${label}_${isStroke ? "stroke" : "fill"}`;
-        if (!map.has(key)) map.set(key, []);
-        map.get(key)!.push({ nodeId: node.id, node, paint, isStroke, label, name });
+function readStoredSuppressions(node: BaseNode): StoredSuppressions {
+    try {
+        const raw = node.getPluginData(SUPPRESSION_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch (e) {
+        return {};
     }
+}
 
-    async function walk(node: SceneNode): Promise<void> {
-        if (!showHiddenElements && !node.visible) return;
+function writeStoredSuppressions(node: BaseNode, stored: StoredSuppressions): void {
+    const isEmpty = !stored.node && !stored.subtree && (!stored.findings || Object.keys(stored.findings).length === 0);
+    node.setPluginData(SUPPRESSION_KEY, isEmpty ? "" : JSON.stringify(stored));
+}
 
-        if ("fills" in node && Array.isArray(node.fills)) {
-            for (const p of node.fills) {
-                await processPaint(node, p, false);
-            }
-        }
+function isSuppressionActive(suppression: Suppression | undefined): suppression is Suppression {
+    return !!suppression && (suppression.expiresAt === null || suppression.expiresAt > Date.now());
+}
 
-        if ("strokes" in node && Array.isArray(node.strokes)) {
-            for (const p of node.strokes) {
-                await processPaint(node, p, true);
-            }
-        }
+// Supressões válidas (não expiradas) de um node; null quando não há nenhuma
+function readNodeSuppressions(node: BaseNode): NodeSuppressions | null {
+    const stored = readStoredSuppressions(node);
+    const result: NodeSuppressions = {};
+    const mark = (suppression: Suppression, level: SuppressionLevel): SuppressionMark => ({ ...suppression, level, sourceNodeId: node.id });
 
-        if ("children" in node) {
-            for (const c of node.children) {
-                if (isSceneNode(c)) await walk(c);
-            }
-        }
-    }
+    if (isSuppressionActive(stored.node)) result.node = mark(stored.node, "node");
+    if (isSuppressionActive(stored.subtree)) result.subtree = mark(stored.subtree, "subtree");
 
-    for (const node of nodes) {
-        await walk(node);
+    for (const [findingId, suppression] of Object.entries(stored.findings ?? {})) {
+        if (!isSuppressionActive(suppression)) continue;
+        result.findings = result.findings ?? {};
+        result.findings[findingId] = mark(suppression, "finding");
     }
 
-    const groups = Array.from(map.values()).map(nodePaints => ({
-        label: nodePaints[0].label,
-        nodePaints
-    }));
-
-    figma.ui.postMessage({ type: "result-colors", groups });
+    return result.node || result.subtree || result.findings ? result : null;
 }
 
-async function analyzeTypography(
-    nodes: (FrameNode | ComponentNode | InstanceNode | SectionNode)[]
-) {
-    const map = new Map<string, { nodeId: string; node: TextNode; style: CustomTextStyle }[]>();
+// 🔥 Aplica as supressões dos nodes varridos: some com as findings ignoradas ou, com o toggle
+// ligado (ou no baseline), mantém e marca cada uma com o motivo
+function applySuppressions<T extends { nodeId: string; findingId: string; suppressed?: SuppressionMark }>(
+    findings: T[], items: ScanItem[], keepSuppressed = showSuppressedFindings
+): T[] {
+    const byNode = new Map<string, ScanItem>();
+    for (const item of items) {
+        if (item.suppression || item.suppressedFindings) byNode.set(item.node.id, item);
+    }
+    if (byNode.size === 0) return findings;
 
-    async function processTextNode(node: TextNode): Promise<void> {
-        const hasToken = await hasValidTextToken(node);
-        if (hasToken) return;
+    return findings.filter(finding => {
+        const item = byNode.get(finding.nodeId);
+        if (!item) return true;
 
-        const fontName = node.fontName !== figma.mixed ? node.fontName : { family: "Mixed", style: "Mixed" };
-        const fontSize = node.fontSize !== figma.mixed ? node.fontSize : "Mixed";
-        const fontWeight = node.fontWeight !== figma.mixed ? node.fontWeight : "Mixed";
-        const lineHeight = node.lineHeight !== figma.mixed ? node.lineHeight : "AUTO";
-        const letterSpacing = node.letterSpacing !== figma.mixed ? node.letterSpacing : "0";
+        const mark = item.suppressedFindings?.[finding.findingId] ?? item.suppression;
+        if (!mark) return true;
 
-        const readableWeight = extractReadableWeight(fontName.style);
+        finding.suppressed = mark;
+        return keepSuppressed;
+    });
+}
 
-        const style: CustomTextStyle = {
-            fontFamily: fontName.family,
-            fontStyle: fontName.style,
-            readableWeight: readableWeight,
-            fontSize: fontSize,
-            fontWeight: fontWeight,
-            lineHeight: lineHeight,
-            letterSpacing: letterSpacing
-        };
+/* ---------- COMPONENTS ---------- */
 
-        const key = `${fontName.family}_${fontName.style}`;
+// 🔥 Finding dentro de instância: o valor vem do componente principal ou é override local?
+interface ComponentSource {
+    origin: "inherited" | "override";
+    instanceId: string; // instância mais próxima do node
+    sourceNodeId: string; // node onde o valor está definido (o próprio node, se for override)
+    componentName: string;
+    editable: boolean; // componente local: dá para corrigir uma vez na origem
+}
 
-        if (!map.has(key)) map.set(key, []);
-        map.get(key)!.push({ nodeId: node.id, node, style });
+// Campos de override que afetam a tipografia (nomes do NodeChangeProperty)
+const TEXT_OVERRIDE_FIELDS = [
+    "fontName", "fontSize", "lineHeight", "letterSpacing", "textCase",
+    "textDecoration", "textStyleId", "styledTextSegments"
+];
+
+function nearestInstance(node: BaseNode): InstanceNode | null {
+    let current: BaseNode | null = node;
+    while (current && current.type !== "PAGE" && current.type !== "DOCUMENT") {
+        if (current.type === "INSTANCE") return current;
+        current = current.parent;
     }
+    return null;
+}
 
-    async function walk(node: SceneNode): Promise<void> {
-        if (!showHiddenElements && !node.visible) return;
+function containingComponent(node: BaseNode): ComponentNode | null {
+    let current: BaseNode | null = node;
+    while (current && current.type !== "PAGE" && current.type !== "DOCUMENT") {
+        if (current.type === "COMPONENT") return current;
+        current = current.parent;
+    }
+    return null;
+}
 
-        if (node.type === "TEXT") {
-            await processTextNode(node);
-        }
+function describeComponentName(component: ComponentNode): string {
+    // Variantes mostram o nome do conjunto junto
+    return component.parent?.type === "COMPONENT_SET" ? `${component.parent.name} / ${component.name}` : component.name;
+}
 
-        if ("children" in node) {
-            for (const c of node.children) {
-                if (isSceneNode(c)) await walk(c);
-            }
+// Algum campo do node foi sobrescrito diretamente em uma das instâncias que o contêm?
+function isOverriddenInInstances(node: SceneNode, fields: string[]): boolean {
+    let current: BaseNode | null = node;
+    while (current && current.type !== "PAGE" && current.type !== "DOCUMENT") {
+        if (current.type === "INSTANCE") {
+            const override = current.overrides.find(o => o.id === node.id);
+            if (override && override.overriddenFields.some(field => fields.includes(field))) return true;
         }
+        current = current.parent;
     }
+    return false;
+}
+
+type MainComponentLookup = Map<string, ComponentNode | null>;
+
+// Main components resolvidos em paralelo (uma chamada por instância)
+async function resolveMainComponentsBatch(instances: Iterable<InstanceNode>): Promise<MainComponentLookup> {
+    const unique = Array.from(new Map(Array.from(instances, i => [i.id, i] as const)).values());
+    const mains = await Promise.all(unique.map(i => i.getMainComponentAsync().catch(() => null)));
+    return new Map(unique.map((instance, i) => [instance.id, mains[i]]));
+}
+
+// Instâncias aninhadas no componente não entram no lote: busca na hora
+function lookupMainComponent(instance: InstanceNode, mains: MainComponentLookup): Promise<ComponentNode | null> {
+    return mains.has(instance.id) ? Promise.resolve(mains.get(instance.id)!) : instance.getMainComponentAsync();
+}
 
-    for (const node of nodes) {
-        await walk(node);
+// Node correspondente um nível acima na cadeia instância → componente.
+// "I1:2;3:4" é o node 3:4 do componente da instância 1:2; a própria instância aponta para o main component
+async function findSourceNode(node: SceneNode, mains: MainComponentLookup): Promise<SceneNode | null> {
+    if (node.id.startsWith("I")) {
+        const path = node.id.slice(1).split(";").slice(1);
+        const sourceId = path.length > 1 ? `I${path.join(";")}` : path[0];
+        const source = await figma.getNodeByIdAsync(sourceId).catch(() => null);
+        return source && isSceneNode(source) ? source : null;
     }
+    if (node.type === "INSTANCE") return lookupMainComponent(node, mains);
+    return null;
+}
 
-    const groups = Array.from(map.values()).map(nodeStyles => {
-        const first = nodeStyles[0].style;
+async function traceComponentSource(node: SceneNode, fields: string[], mains: MainComponentLookup): Promise<ComponentSource | undefined> {
+    const instance = nearestInstance(node);
+    if (!instance) return undefined;
+
+    if (isOverriddenInInstances(node, fields)) {
+        const main = await lookupMainComponent(instance, mains);
         return {
-            style: first,
-            nodeStyles,
-            label: `${first.fontFamily} ${first.readableWeight}`
+            origin: "override",
+            instanceId: instance.id,
+            sourceNodeId: node.id,
+            componentName: main ? describeComponentName(main) : instance.name,
+            editable: false
         };
-    });
+    }
+
+    // Desce pelos componentes (instâncias aninhadas) até o node onde o valor foi definido
+    let current: SceneNode = node;
+    while (true) {
+        const next = await findSourceNode(current, mains);
+        if (!next) break;
+        current = next;
+        if (!nearestInstance(current) || isOverriddenInInstances(current, fields)) break;
+    }
 
-    figma.ui.postMessage({ type: "result-typography", groups });
+    const component = containingComponent(current);
+    return {
+        origin: "inherited",
+        instanceId: instance.id,
+        sourceNodeId: current.id,
+        componentName: component ? describeComponentName(component) : instance.name,
+        editable: current !== node && !!component && !component.remote
+    };
 }
 
-async function analyzeSpacing(
-    nodes: (FrameNode | ComponentNode | InstanceNode | SectionNode)[]
-) {
-    const issues: { nodeId: string, nodeName: string, type: string, value: number, expected: string }[] = [];
-
-    function checkValue(value: number, node: SceneNode, type: string) {
-        if (value > 0 && !spacingScale.includes(value)) {
-            issues.push({
-                nodeId: node.id,
-                nodeName: node.name,
-                type: type,
-                value: value,
-                expected: spacingScale.join(", ")
-            });
-        }
+// 🔥 Marca as findings que vêm de instâncias com a origem do valor (só os nodes varridos agora;
+// as findings mantidas da varredura anterior já vêm marcadas). Null se a análise foi cancelada
+async function traceComponentSources<T extends { nodeId: string; component?: ComponentSource }>(
+    scan: ScanContext,
+    findings: T[],
+    items: ScanItem[],
+    fieldsOf: (finding: T) => string[]
+): Promise<T[] | null> {
+    const nodes = new Map<string, SceneNode>();
+    for (const { node } of items) {
+        if (node.type === "INSTANCE" || node.id.startsWith("I")) nodes.set(node.id, node);
     }
+    const pending = findings.filter(f => nodes.has(f.nodeId));
+    if (pending.length === 0) return findings;
 
-    async function walk(node: SceneNode): Promise<void> {
-        if (!showHiddenElements && !node.visible) return;
+    const mains = await resolveMainComponentsBatch(pending.map(f => nearestInstance(nodes.get(f.nodeId)!)!));
+    scan.total += pending.length;
 
-        // 1. Analisar Auto Layout
-        if ("layoutMode" in node && node.layoutMode !== "NONE") {
-            const n = node as FrameNode | ComponentNode | InstanceNode;
-            checkValue(n.itemSpacing, n, "Gap");
-            checkValue(n.paddingTop, n, "Padding Top");
-            checkValue(n.paddingBottom, n, "Padding Bottom");
-            checkValue(n.paddingLeft, n, "Padding Left");
-            checkValue(n.paddingRight, n, "Padding Right");
+    const traced = new Map<string, ComponentSource | undefined>();
+    for (let i = 0; i < pending.length; i++) {
+        if (i % SCAN_CHUNK_SIZE === 0) {
+            postScanProgress(scan);
+            await new Promise(resolve => setTimeout(resolve, 0));
         }
+        if (isScanCancelled(scan)) return null;
+
+        const finding = pending[i];
+        const node = nodes.get(finding.nodeId)!;
+        const fields = fieldsOf(finding);
+        const key = `${node.id}|${fields.join(",")}`;
+        if (!traced.has(key)) traced.set(key, await traceComponentSource(node, fields, mains));
+        finding.component = traced.get(key);
+        scan.visited++;
+    }
 
-        // 2. Analisar Border Radius
-        if ("cornerRadius" in node) {
-            const n = node as any;
-            if (n.cornerRadius !== figma.mixed) {
-                checkValue(n.cornerRadius, n, "Border Radius");
-            } else {
-                checkValue(n.topLeftRadius, n, "Border Radius Top Left");
-                checkValue(n.topRightRadius, n, "Border Radius Top Right");
-                checkValue(n.bottomLeftRadius, n, "Border Radius Bottom Left");
-                checkValue(n.bottomRightRadius, n, "Border Radius Bottom Right");
-            }
-        }
+    postScanProgress(scan);
+    return isScanCancelled(scan) ? null : findings;
+}
 
-        if ("children" in node) {
-            for (const c of node.children) {
-                if (isSceneNode(c)) await walk(c);
-            }
-        }
-    }
+function spacingTypeProps(type: string): string[] {
+    if (type === "Border Radius") return ["cornerRadius", ...RADIUS_FIELDS.map(f => f.prop)];
+    const field = [...SPACING_FIELDS, ...RADIUS_FIELDS].find(f => f.label === type);
+    return field ? [field.prop] : [];
+}
 
-    for (const node of nodes) {
-        await walk(node);
-    }
+/* ---------- SCAN ---------- */
 
-    // Agrupar problemas por tipo e valor
-    const groupedIssues: Map<string, any> = new Map();
+// 🔥 Cada análise recebe um id; uma análise nova ou "cancel-analysis" torna a anterior obsoleta
+let currentScanId = 0;
 
-    issues.forEach(issue => {
-        const key = `${issue.type}_${issue.value}`;
-        if (!groupedIssues.has(key)) {
-            groupedIssues.set(key, {
-                type: issue.type,
-                value: issue.value,
-                expected: issue.expected,
-                nodes: []
-            });
-        }
-        groupedIssues.get(key).nodes.push({
-            nodeId: issue.nodeId,
-            nodeName: issue.nodeName
-        });
-    });
+// 🔥 Relatório, cobertura e baseline têm ids próprios: reanalisar a aba não os derruba, só o "cancel-analysis"
+let backgroundRunSeq = 0;
+let backgroundCancelledUpTo = 0;
 
-    const groups = Array.from(groupedIssues.values()).map(g => ({
-        type: g.type,
-        value: g.value,
-        expected: g.expected,
-        nodeStyles: g.nodes // Reusando nome nodeStyles para compatibilidade com o layout da UI
-    }));
+// Nodes processados entre uma pausa e outra (progresso + chance de cancelar)
+const SCAN_CHUNK_SIZE = 250;
 
-    figma.ui.postMessage({ type: "result-spacing", groups });
+interface ScanContext {
+    id: number;
+    category: AuditTab;
+    total: number;
+    visited: number;
+    findings: number;
+    silent: boolean; // reanálise incremental: sem progresso na UI
+    background?: boolean; // parte de runAllScans (id da sequência própria)
+    coverage?: CoverageTally; // cobertura: conta também o que já está tokenizado
+    withSuppressed?: boolean; // baseline: mantém as findings ignoradas, marcadas, para compará-las à parte
 }
 
-/* ---------- TYPES ---------- */
+// Node visível a auditar e o root (página/frame) de onde ele veio
+interface ScanItem {
+    node: SceneNode;
+    location: FindingLocation;
+    suppression?: SuppressionMark; // node (ou subárvore) ignorado
+    suppressedFindings?: { [findingId: string]: SuppressionMark };
+}
 
-interface CustomTextStyle {
-    fontFamily: string;
-    fontStyle: string;
-    readableWeight?: string;
-    fontSize: any;
-    fontWeight: any;
-    lineHeight: any;
-    letterSpacing: any;
+function startScan(category: AuditTab, silent = false): ScanContext {
+    currentScanId++;
+    return { id: currentScanId, category, total: 0, visited: 0, findings: 0, silent };
 }
 
-/* ---------- HELPERS ---------- */
+function startBackgroundScan(category: AuditTab, runId: number): ScanContext {
+    return { id: runId, category, total: 0, visited: 0, findings: 0, silent: false, background: true };
+}
 
-// 🔥 Coleta todos os frames válidos da seleção atual
-function getValidFramesFromSelection(): (FrameNode | ComponentNode | InstanceNode | SectionNode)[] {
-    const selection = figma.currentPage.selection;
-    const frames: (FrameNode | ComponentNode | InstanceNode | SectionNode)[] = [];
+function isScanCancelled(scan: ScanContext): boolean {
+    if (scan.background) return scan.id <= backgroundCancelledUpTo;
+    return scan.id !== currentScanId;
+}
 
-    for (const node of selection) {
-        let current: SceneNode | null = node;
+function keepsSuppressedFindings(scan: ScanContext): boolean {
+    return showSuppressedFindings || !!scan.withSuppressed;
+}
 
-        while (
-            current &&
-            current.type !== "FRAME" &&
-            current.type !== "COMPONENT" &&
-            current.type !== "INSTANCE" &&
-            current.type !== "SECTION"
-        ) {
-            current = current.parent as SceneNode;
+// 🔥 A cobertura mede o documento como ele está: nodes ignorados também entram na contagem
+// (ignorar uma finding não pode subir o score)
+function walksSuppressedNodes(scan: ScanContext): boolean {
+    return keepsSuppressedFindings(scan) || !!scan.coverage;
+}
+
+// 🔥 FASE 1 — coleta síncrona dos nodes visíveis de cada root, sem nenhum await.
+// Com location, os roots são subárvores de um root já conhecido (reanálise incremental);
+// inherited é a supressão de subárvore de um ancestral e deep=false pega só os próprios roots
+function collectScanItems(
+    roots: SceneNode[], location?: FindingLocation, inherited?: SuppressionMark, deep = true, withSuppressed = showSuppressedFindings
+): ScanItem[] {
+    const items: ScanItem[] = [];
+
+    function walk(node: SceneNode, location: FindingLocation, inheritedSubtree?: SuppressionMark): void {
+        if (!showHiddenElements && !node.visible) return;
+
+        const own = readNodeSuppressions(node);
+        const subtree = own?.subtree ?? inheritedSubtree;
+        const suppression = own?.node ?? subtree;
+
+        // Subárvore ignorada: nem entra na varredura
+        if (subtree && !withSuppressed) return;
+        if (!suppression || withSuppressed) {
+            items.push({ node, location, suppression, suppressedFindings: own?.findings });
         }
 
-        if (current && !frames.some(f => f.id === current!.id)) {
-            frames.push(current as FrameNode | ComponentNode | InstanceNode | SectionNode);
+        if (deep && "children" in node) {
+            for (const c of node.children) {
+                if (isSceneNode(c)) walk(c, location, subtree);
+            }
         }
     }
 
-    return frames;
+    for (const root of roots) walk(root, location ?? describeRootLocation(root), inherited);
+    return items;
 }
 
+// FASE 2 — resolve em paralelo todos os estilos referenciados (uma chamada por id)
+async function resolveStylesBatch(ids: Iterable<string>): Promise<Map<string, BaseStyle | null>> {
+    const unique = Array.from(new Set(ids));
+    const styles = await Promise.all(unique.map(id => figma.getStyleByIdAsync(id).catch(() => null)));
+    return new Map(unique.map((id, i) => [id, styles[i]]));
+}
 
+function postScanProgress(scan: ScanContext): void {
+    if (scan.silent) return;
+    figma.ui.postMessage({
+        type: "analysis-progress",
+        category: scan.category,
+        visited: scan.visited,
+        total: scan.total,
+        findings: scan.findings
+    });
+}
 
-/* ---------- EVENTS ---------- */
-
-figma.on("selectionchange", async () => {
-    console.log("SELECTION CHANGED");
+// 🔥 FASE 3 — processa em blocos; a cada bloco publica o progresso e cede a vez à UI.
+// Retorna false se a análise foi cancelada (ou substituída) no meio do caminho
+async function processInChunks(scan: ScanContext, items: ScanItem[], process: (item: ScanItem) => void): Promise<boolean> {
+    scan.total = items.length;
 
-    if (ignoringSelectionChange) {
-        console.log("IGNORE CHANGED");
-        return;
+    for (let i = 0; i < items.length; i++) {
+        if (i % SCAN_CHUNK_SIZE === 0) {
+            postScanProgress(scan);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            if (isScanCancelled(scan)) return false;
+        }
+        process(items[i]);
+        scan.visited++;
     }
 
-    const selection = figma.currentPage.selection;
+    postScanProgress(scan);
+    return !isScanCancelled(scan);
+}
 
-    if (selection.length === 0) {
-        rootFrameIds = [];
-        rootFrameId = null;
-        figma.ui.postMessage({ type: "empty", clearAll: true });
-        return;
-    }
+// 🔥 Reanálise incremental: só os nodes alterados são varridos de novo; as findings
+// dos demais vêm da última análise da aba
+interface FindingsUpdate {
+    items: ScanItem[];
+    nodeIds: Set<string>; // nodes cujas findings antigas são descartadas
+    hasDeletions: boolean;
+}
 
-    const containers = getValidFramesFromSelection();
+// Findings da última análise de cada aba (base das atualizações incrementais)
+const lastFindings: {
+    colors?: ColorFinding[];
+    typography?: TextFinding[];
+    textOverrides?: TextOverrideFinding[];
+    spacing?: SpacingFinding[];
+    effects?: EffectFinding[];
+    components?: ComponentFinding[];
+} = {};
+
+// Findings anteriores que continuam valendo: sem update, a análise começa do zero
+async function keepUnchangedFindings<T extends { nodeId: string }>(previous: T[] | undefined, update?: FindingsUpdate): Promise<T[]> {
+    if (!update) return [];
+
+    const kept = (previous ?? []).filter(f => !update.nodeIds.has(f.nodeId));
+    if (!update.hasDeletions) return kept;
+
+    // Filhos de um node removido não geram evento próprio: descarta quem não existe mais
+    const ids = Array.from(new Set(kept.map(f => f.nodeId)));
+    const nodes = await Promise.all(ids.map(id => figma.getNodeByIdAsync(id).catch(() => null)));
+    const alive = new Set(ids.filter((_, i) => nodes[i] && !nodes[i]!.removed));
+    return kept.filter(f => alive.has(f.nodeId));
+}
 
-    if (containers.length === 0) return;
+/* ---------- COVERAGE ---------- */
 
-    const newFrameIds = containers.map(c => c.id);
-    const frameChanged = JSON.stringify(newFrameIds) !== JSON.stringify(rootFrameIds);
+// 🔥 O que a cobertura mede: cada propriedade auditada conta como tokenizada ou crua
+type CoverageMetric = "fills" | "strokes" | "text" | "gaps" | "paddings" | "radii" | "effects";
 
-    rootFrameIds = newFrameIds;
-    rootFrameId = newFrameIds[0];
+const COVERAGE_METRICS: CoverageMetric[] = ["fills", "strokes", "text", "gaps", "paddings", "radii", "effects"];
 
-    figma.ui.postMessage({ type: "selection-changed" });
+interface CoverageCount {
+    tokenized: number;
+    raw: number;
+}
 
-    if (frameChanged) {
-        figma.ui.postMessage({ type: "frame-changed" });
+type CoverageCounts = { [metric in CoverageMetric]: CoverageCount };
+
+// Contagem de uma varredura: total e por frame raiz (as páginas saem da localização dos frames)
+interface CoverageTally {
+    total: CoverageCounts;
+    frames: Map<string, { location: FindingLocation; counts: CoverageCounts }>;
+}
+
+// Histórico de execuções para as tendências (document pluginData)
+const COVERAGE_HISTORY_KEY = "coverageHistory";
+const COVERAGE_HISTORY_MAX_ENTRIES = 30;
+
+interface CoverageHistoryEntry {
+    timestamp: number;
+    target: string; // escopo + roots auditados: só execuções do mesmo alvo são comparadas
+    score: number;
+    counts: CoverageCounts;
+}
+
+function emptyCoverageCounts(): CoverageCounts {
+    const counts = {} as CoverageCounts;
+    for (const metric of COVERAGE_METRICS) counts[metric] = { tokenized: 0, raw: 0 };
+    return counts;
+}
+
+function createCoverageTally(): CoverageTally {
+    return { total: emptyCoverageCounts(), frames: new Map() };
+}
+
+// Chamado pelas varreduras; sem tally (análise normal da aba) não faz nada
+function recordCoverage(scan: ScanContext, location: FindingLocation, metric: CoverageMetric, tokenized: boolean): void {
+    const tally = scan.coverage;
+    if (!tally) return;
+
+    if (!tally.frames.has(location.frameId)) {
+        tally.frames.set(location.frameId, { location, counts: emptyCoverageCounts() });
+    }
+
+    const side = tokenized ? "tokenized" : "raw";
+    tally.total[metric][side]++;
+    tally.frames.get(location.frameId)!.counts[metric][side]++;
+}
+
+// Percentual tokenizado (0–100); null quando não há nada a medir
+function coverageScore(counts: CoverageCounts): number | null {
+    let tokenized = 0;
+    let total = 0;
+    for (const metric of COVERAGE_METRICS) {
+        tokenized += counts[metric].tokenized;
+        total += counts[metric].tokenized + counts[metric].raw;
+    }
+    return total > 0 ? Math.round((tokenized / total) * 1000) / 10 : null;
+}
+
+function addCoverageCounts(target: CoverageCounts, source: CoverageCounts): void {
+    for (const metric of COVERAGE_METRICS) {
+        target[metric].tokenized += source[metric].tokenized;
+        target[metric].raw += source[metric].raw;
+    }
+}
+
+function readCoverageHistory(): CoverageHistoryEntry[] {
+    try {
+        const raw = figma.root.getPluginData(COVERAGE_HISTORY_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (e) {
+        console.error("❌ Histórico de cobertura corrompido, reiniciando:", e);
+        return [];
+    }
+}
+
+function sameCoverageCounts(a: CoverageCounts, b: CoverageCounts): boolean {
+    return COVERAGE_METRICS.every(metric =>
+        a[metric].tokenized === b[metric].tokenized && a[metric].raw === b[metric].raw
+    );
+}
+
+// 🔥 Só grava um ponto novo quando as contagens mudaram desde a última execução do mesmo alvo:
+// abrir o dashboard de novo não duplica a tendência nem suja o documento
+function appendCoverageHistory(entry: CoverageHistoryEntry): CoverageHistoryEntry[] {
+    const history = readCoverageHistory();
+    const last = history.filter(item => item.target === entry.target).pop();
+    if (last && sameCoverageCounts(last.counts, entry.counts)) return history;
+
+    const updated = history.concat(entry).slice(-COVERAGE_HISTORY_MAX_ENTRIES);
+    figma.root.setPluginData(COVERAGE_HISTORY_KEY, JSON.stringify(updated));
+    return updated;
+}
+
+// Alvo da auditoria: na seleção, os frames escolhidos; na página, qual página
+function describeCoverageTarget(roots: SceneNode[]): string {
+    if (analysisScope === "document") return "document";
+    if (analysisScope === "page") return `page:${figma.currentPage.id}`;
+    return `selection:${roots.map(r => r.id).sort().join(",")}`;
+}
+
+// 🔥 Dashboard: total, páginas e frames com as contagens de cada lado e a tendência do alvo
+function buildCoverageReport(tally: CoverageTally, roots: SceneNode[]) {
+    const pages = new Map<string, { pageId: string; pageName: string; counts: CoverageCounts; frames: any[] }>();
+
+    tally.frames.forEach(({ location, counts }) => {
+        if (!pages.has(location.pageId)) {
+            pages.set(location.pageId, { pageId: location.pageId, pageName: location.pageName, counts: emptyCoverageCounts(), frames: [] });
+        }
+        const page = pages.get(location.pageId)!;
+        addCoverageCounts(page.counts, counts);
+        page.frames.push({ frameId: location.frameId, frameName: location.frameName, counts, score: coverageScore(counts) });
+    });
+
+    const score = coverageScore(tally.total);
+    const target = describeCoverageTarget(roots);
+    const history = score === null
+        ? readCoverageHistory()
+        : appendCoverageHistory({ timestamp: Date.now(), target, score, counts: tally.total });
+
+    return {
+        generatedAt: new Date().toISOString(),
+        scope: analysisScope,
+        score,
+        counts: tally.total,
+        pages: Array.from(pages.values()).map(page => ({
+            ...page,
+            score: coverageScore(page.counts),
+            // Piores frames primeiro
+            frames: page.frames.sort((a, b) => (a.score ?? 100) - (b.score ?? 100))
+        })),
+        trend: history.filter(entry => entry.target === target).map(entry => ({ timestamp: entry.timestamp, score: entry.score }))
+    };
+}
+
+/* ---------- ANALYZE FUNCTIONS ---------- */
+
+interface ColorFinding {
+    nodeId: string;
+    node: SceneNode;
+    paint: Paint;
+    isStroke: boolean;
+    paintIndex: number;
+    paintCount: number;
+    label: string;
+    name: string;
+    field: AuditField;
+    stops?: GradientStopInfo[];
+    location?: FindingLocation;
+    groupKey: string;
+    findingId: string;
+    newSinceBaseline?: boolean;
+    suppressed?: SuppressionMark;
+    component?: ComponentSource;
+}
+
+interface TextFinding {
+    nodeId: string;
+    node: TextNode;
+    style: CustomTextStyle;
+    range?: TextRange;
+    characters?: string;
+    location?: FindingLocation;
+    findingId: string;
+    newSinceBaseline?: boolean;
+    suppressed?: SuppressionMark;
+    component?: ComponentSource;
+}
+
+interface TextOverrideFinding {
+    nodeId: string;
+    nodeName: string;
+    styleId: string;
+    styleName: string;
+    range?: TextRange;
+    characters?: string;
+    overrides: TextOverride[];
+    location?: FindingLocation;
+    findingId: string;
+    newSinceBaseline?: boolean;
+    suppressed?: SuppressionMark;
+    component?: ComponentSource;
+}
+
+interface SpacingFinding {
+    nodeId: string;
+    nodeName: string;
+    type: string;
+    value: number;
+    expected: string;
+    onScale: boolean;
+    location?: FindingLocation;
+    findingId: string;
+    newSinceBaseline?: boolean;
+    suppressed?: SuppressionMark;
+    component?: ComponentSource;
+}
+
+interface EffectFinding {
+    nodeId: string;
+    nodeName: string;
+    effects: AuditableEffect[];
+    location?: FindingLocation;
+    findingId: string;
+    newSinceBaseline?: boolean;
+    suppressed?: SuppressionMark;
+    component?: ComponentSource;
+}
+
+// 🔥 Id estável de uma finding (categoria + node + propriedade): base de baselines e relatórios
+function describeRangeId(range?: TextRange): string {
+    return range ? `${range.start}-${range.end}` : "all";
+}
+
+// 🔥 Varre os paints sem token; null se a varredura foi cancelada
+async function scanColors(
+    nodes: SceneNode[],
+    scan: ScanContext,
+    update?: FindingsUpdate
+): Promise<ColorFinding[] | null> {
+    const findings: ColorFinding[] = await keepUnchangedFindings(lastFindings.colors, update);
+
+    // Fases 1 e 2: nodes visíveis e todos os estilos de fill/stroke resolvidos de uma vez
+    const items = update ? update.items : collectScanItems(nodes, undefined, undefined, true, walksSuppressedNodes(scan));
+    const styleIds: string[] = [];
+    for (const { node } of items) {
+        if ("fillStyleId" in node && typeof node.fillStyleId === "string" && node.fillStyleId !== "") styleIds.push(node.fillStyleId);
+        if ("strokeStyleId" in node && typeof node.strokeStyleId === "string" && node.strokeStyleId !== "") styleIds.push(node.strokeStyleId);
+    }
+    const styles = await resolveStylesBatch(styleIds);
+    if (isScanCancelled(scan)) return null;
+
+    function processPaint(node: SceneNode, location: FindingLocation, paint: Paint, isStroke: boolean, paintIndex: number, paintCount: number): void {
+        if (!paint || paint.visible === false) return;
+        if (paint.type === "IMAGE" || paint.type === "VIDEO" || paint.type === "PATTERN") return;
+
+        const hasToken = hasValidColorTokenSync(node, paint, isStroke, styles);
+        recordCoverage(scan, location, isStroke ? "strokes" : "fills", hasToken);
+        if (hasToken) return;
+
+        let label: string;
+        let composition: string;
+        let stops: GradientStopInfo[] | undefined;
+
+        if (paint.type === "SOLID") {
+            label = rgbToHex(paint.color);
+            composition = label;
+        } else if (isGradientPaint(paint)) {
+            // 🔥 Cada stop é auditado separadamente; o grupo é a composição exata dos stops
+            stops = describeGradientStops(paint);
+            label = `Gradiente ${stops.map(s => s.hex).join(" → ")}`;
+            composition = `${paint.type}:${stops.map(s => `${s.hex}@${s.alpha}@${s.position}`).join(",")}`;
+        } else {
+            return;
+        }
+
+        let styleId: string | undefined;
+        if ("fillStyleId" in node && !isStroke) {
+            styleId = node.fillStyleId as string | undefined;
+        } else if ("strokeStyleId" in node && isStroke) {
+            styleId = node.strokeStyleId as string | undefined;
+        }
+
+        const style = typeof styleId === "string" && styleId !== "" ? styles.get(styleId) : null;
+        const name = style ? style.name : label;
+
+        const groupKey = `${composition}_${isStroke ? "stroke" : "fill"}`;
+        findings.push({
+            nodeId: node.id, node, paint, isStroke, paintIndex, paintCount, label, name, field: getPaintField(node, isStroke), stops, location, groupKey,
+            findingId: `colors:${node.id}:${isStroke ? "stroke" : "fill"}:${paintIndex}`
+        });
+        scan.findings++;
+    }
+
+    // 🔥 Audita todas as camadas do paint stack, guardando a posição de cada uma
+    const completed = await processInChunks(scan, items, ({ node, location }) => {
+        if ("fills" in node && Array.isArray(node.fills)) {
+            for (let i = 0; i < node.fills.length; i++) {
+                processPaint(node, location, node.fills[i], false, i, node.fills.length);
+            }
+        }
+
+        if ("strokes" in node && Array.isArray(node.strokes)) {
+            for (let i = 0; i < node.strokes.length; i++) {
+                processPaint(node, location, node.strokes[i], true, i, node.strokes.length);
+            }
+        }
+    });
+    if (!completed) return null;
+    return traceComponentSources(scan, applySuppressions(findings, items, keepsSuppressedFindings(scan)), items, f =>
+        f.isStroke ? ["strokes", "strokeStyleId"] : ["fills", "fillStyleId"]
+    );
+}
+
+function groupColorFindings(findings: ColorFinding[]) {
+    const map = new Map<string, ColorFinding[]>();
+    for (const finding of findings) {
+        if (!map.has(finding.groupKey)) map.set(finding.groupKey, []);
+        map.get(finding.groupKey)!.push(finding);
+    }
+
+    return Array.from(map.values()).map(nodePaints => ({
+        label: nodePaints[0].label,
+        stops: nodePaints[0].stops,
+        nodePaints
+    }));
+}
+
+async function analyzeColors(
+    nodes: SceneNode[],
+    update?: FindingsUpdate
+) {
+    const scan = startScan("colors", !!update);
+    const findings = await scanColors(nodes, scan, update);
+    if (!findings) return;
+
+    lastFindings.colors = findings;
+    figma.ui.postMessage({
+        type: "result-colors", groups: groupColorFindings(applyBaselineStatus(findings)), baseline: describeBaselineFilter(), incremental: !!update
+    });
+}
+
+// 🔥 Varre textos sem estilo (por trecho, em texto misto) e textos com estilo sobrescrito
+async function scanTypography(
+    nodes: SceneNode[],
+    scan: ScanContext,
+    update?: FindingsUpdate
+): Promise<{ findings: TextFinding[]; overrides: TextOverrideFinding[] } | null> {
+    const findings: TextFinding[] = await keepUnchangedFindings(lastFindings.typography, update);
+
+    // 🔥 Textos com estilo mas com propriedades sobrescritas localmente
+    const overrideFindings: TextOverrideFinding[] = await keepUnchangedFindings(lastFindings.textOverrides, update);
+
+    // Textos com estilo: coletados na varredura e comparados com o estilo depois, em lote
+    const overrideChecks: { node: TextNode; styleId: string; range?: TextRange; characters?: string; location: FindingLocation }[] = [];
+
+    function addEntry(node: TextNode, location: FindingLocation, style: CustomTextStyle, range?: TextRange, characters?: string): void {
+        findings.push({ nodeId: node.id, node, style, range, characters, location, findingId: `typography:${node.id}:${describeRangeId(range)}` });
+        scan.findings++;
+    }
+
+    function processTextNode(node: TextNode, location: FindingLocation): void {
+        if (hasValidTextToken(node)) {
+            recordCoverage(scan, location, "text", true);
+            overrideChecks.push({ node, styleId: node.textStyleId as string, location });
+            return;
+        }
+
+        // 🔥 Texto misto: cada trecho sem estilo vira uma finding com suas próprias fontes
+        if (isMixedText(node)) {
+            const segments = node.getStyledTextSegments(STYLED_SEGMENT_FIELDS);
+            // Para a cobertura, o texto só conta como tokenizado se todos os trechos têm estilo
+            recordCoverage(scan, location, "text", segments.every(segment => !!segment.textStyleId));
+
+            for (const segment of segments) {
+                if (segment.textStyleId) {
+                    overrideChecks.push({
+                        node, styleId: segment.textStyleId, location,
+                        range: { start: segment.start, end: segment.end }, characters: segment.characters.slice(0, 40)
+                    });
+                    continue;
+                }
+                addEntry(node, location, {
+                    fontFamily: segment.fontName.family,
+                    fontStyle: segment.fontName.style,
+                    readableWeight: extractReadableWeight(segment.fontName.style),
+                    fontSize: segment.fontSize,
+                    fontWeight: segment.fontWeight,
+                    lineHeight: segment.lineHeight,
+                    letterSpacing: segment.letterSpacing
+                }, { start: segment.start, end: segment.end }, segment.characters.slice(0, 40));
+            }
+            return;
+        }
+
+        const fontName = node.fontName !== figma.mixed ? node.fontName : { family: "Mixed", style: "Mixed" };
+        const fontSize = node.fontSize !== figma.mixed ? node.fontSize : "Mixed";
+        const fontWeight = node.fontWeight !== figma.mixed ? node.fontWeight : "Mixed";
+        const lineHeight = node.lineHeight !== figma.mixed ? node.lineHeight : "AUTO";
+        const letterSpacing = node.letterSpacing !== figma.mixed ? node.letterSpacing : "0";
+
+        const readableWeight = extractReadableWeight(fontName.style);
+
+        const style: CustomTextStyle = {
+            fontFamily: fontName.family,
+            fontStyle: fontName.style,
+            readableWeight: readableWeight,
+            fontSize: fontSize,
+            fontWeight: fontWeight,
+            lineHeight: lineHeight,
+            letterSpacing: letterSpacing
+        };
+
+        recordCoverage(scan, location, "text", false);
+        addEntry(node, location, style);
+    }
+
+    const items = update ? update.items : collectScanItems(nodes, undefined, undefined, true, walksSuppressedNodes(scan));
+    const completed = await processInChunks(scan, items, ({ node, location }) => {
+        if (node.type === "TEXT") processTextNode(node, location);
+    });
+    if (!completed) return null;
+
+    // Sobrescritas: resolve os estilos usados de uma vez e compara cada texto com o seu
+    const textStyles = await resolveStylesBatch(overrideChecks.map(check => check.styleId));
+    if (isScanCancelled(scan)) return null;
+
+    for (const { node, styleId, range, characters, location } of overrideChecks) {
+        const style = textStyles.get(styleId);
+        if (!style || style.type !== "TEXT") continue;
+
+        const actual = range ? snapshotTextRange(node, range) : snapshotNode(node, "typography", ["textStyleId"]);
+        const overrides = findTextOverrides(actual, style as TextStyle);
+        if (overrides.length === 0) continue;
+
+        overrideFindings.push({
+            nodeId: node.id, nodeName: node.name, styleId, styleName: style.name, range, characters, overrides, location,
+            findingId: `typography:${node.id}:override:${describeRangeId(range)}`
+        });
+    }
+
+    const traced = await traceComponentSources(scan, applySuppressions(findings, items, keepsSuppressedFindings(scan)), items, () => TEXT_OVERRIDE_FIELDS);
+    if (!traced) return null;
+    const tracedOverrides = await traceComponentSources(scan, applySuppressions(overrideFindings, items, keepsSuppressedFindings(scan)), items, () => TEXT_OVERRIDE_FIELDS);
+    if (!tracedOverrides) return null;
+    return { findings: traced, overrides: tracedOverrides };
+}
+
+function groupTextFindings(findings: TextFinding[]) {
+    const map = new Map<string, TextFinding[]>();
+    for (const finding of findings) {
+        const key = `${finding.style.fontFamily}_${finding.style.fontStyle}`;
+        if (!map.has(key)) map.set(key, []);
+        map.get(key)!.push(finding);
+    }
+
+    return Array.from(map.values()).map(nodeStyles => {
+        const first = nodeStyles[0].style;
+        return {
+            style: first,
+            nodeStyles,
+            label: `${first.fontFamily} ${first.readableWeight}`
+        };
+    });
+}
+
+async function analyzeTypography(
+    nodes: SceneNode[],
+    update?: FindingsUpdate
+) {
+    const scan = startScan("typography", !!update);
+    const result = await scanTypography(nodes, scan, update);
+    if (!result) return;
+
+    lastFindings.typography = result.findings;
+    lastFindings.textOverrides = result.overrides;
+    figma.ui.postMessage({
+        type: "result-typography",
+        groups: groupTextFindings(applyBaselineStatus(result.findings)),
+        overrides: applyBaselineStatus(result.overrides),
+        baseline: describeBaselineFilter(),
+        incremental: !!update
+    });
+}
+
+// 🔥 Varre gaps, paddings e radii sem variável vinculada
+async function scanSpacing(
+    nodes: SceneNode[],
+    scan: ScanContext,
+    update?: FindingsUpdate
+): Promise<SpacingFinding[] | null> {
+    const issues: SpacingFinding[] = await keepUnchangedFindings(lastFindings.spacing, update);
+    const scales = await resolveScales();
+    if (isScanCancelled(scan)) return null;
+
+    // 🔥 Reporta todo valor sem variável vinculada, marcando se está ou não na escala
+    function checkValue(value: number, node: SceneNode, location: FindingLocation, type: string, props: string[]) {
+        if (value < 0) return;
+        if (value === 0 && scaleSettings.current.allowZero) return;
+
+        const bound = (node as any).boundVariables ?? {};
+        const tokenized = props.every(prop => bound[prop]);
+        const field = spacingTypeToField(type);
+        recordCoverage(scan, location, field === "gap" ? "gaps" : field === "padding" ? "paddings" : "radii", tokenized);
+        if (tokenized) return;
+
+        const scale = type.startsWith("Border Radius") ? scales.radius : scales.spacing;
+        issues.push({
+            nodeId: node.id,
+            nodeName: node.name,
+            type: type,
+            value: value,
+            expected: scale.join(", "),
+            onScale: isOnScale(value, scale),
+            location,
+            findingId: `spacing:${node.id}:${type}`
+        });
+        scan.findings++;
+    }
+
+    const items = update ? update.items : collectScanItems(nodes, undefined, undefined, true, walksSuppressedNodes(scan));
+    const completed = await processInChunks(scan, items, ({ node, location }) => {
+        // 1. Analisar Auto Layout
+        if ("layoutMode" in node && node.layoutMode !== "NONE") {
+            const n = node as FrameNode | ComponentNode | InstanceNode;
+            checkValue(n.itemSpacing, n, location, "Gap", ["itemSpacing"]);
+            checkValue(n.paddingTop, n, location, "Padding Top", ["paddingTop"]);
+            checkValue(n.paddingBottom, n, location, "Padding Bottom", ["paddingBottom"]);
+            checkValue(n.paddingLeft, n, location, "Padding Left", ["paddingLeft"]);
+            checkValue(n.paddingRight, n, location, "Padding Right", ["paddingRight"]);
+        }
+
+        // 2. Analisar Border Radius
+        if ("cornerRadius" in node) {
+            const n = node as any;
+            if (n.cornerRadius !== figma.mixed) {
+                checkValue(n.cornerRadius, n, location, "Border Radius", ["topLeftRadius", "topRightRadius", "bottomLeftRadius", "bottomRightRadius"]);
+            } else {
+                checkValue(n.topLeftRadius, n, location, "Border Radius Top Left", ["topLeftRadius"]);
+                checkValue(n.topRightRadius, n, location, "Border Radius Top Right", ["topRightRadius"]);
+                checkValue(n.bottomLeftRadius, n, location, "Border Radius Bottom Left", ["bottomLeftRadius"]);
+                checkValue(n.bottomRightRadius, n, location, "Border Radius Bottom Right", ["bottomRightRadius"]);
+            }
+        }
+    });
+    if (!completed) return null;
+    return traceComponentSources(scan, applySuppressions(issues, items, keepsSuppressedFindings(scan)), items, f => spacingTypeProps(f.type));
+}
+
+function groupSpacingFindings(issues: SpacingFinding[]) {
+    // Agrupar problemas por tipo e valor
+    const groupedIssues: Map<string, any> = new Map();
+
+    issues.forEach(issue => {
+        const key = `${issue.type}_${issue.value}`;
+        if (!groupedIssues.has(key)) {
+            groupedIssues.set(key, {
+                type: issue.type,
+                value: issue.value,
+                expected: issue.expected,
+                onScale: issue.onScale,
+                nodes: []
+            });
+        }
+        groupedIssues.get(key).nodes.push({
+            nodeId: issue.nodeId,
+            nodeName: issue.nodeName,
+            location: issue.location,
+            findingId: issue.findingId,
+            newSinceBaseline: issue.newSinceBaseline,
+            suppressed: issue.suppressed,
+            component: issue.component
+        });
+    });
+
+    const groups = Array.from(groupedIssues.values())
+        .map(g => ({
+            type: g.type,
+            value: g.value,
+            expected: g.expected,
+            onScale: g.onScale,
+            field: spacingTypeToField(g.type),
+            nodeStyles: g.nodes // Reusando nome nodeStyles para compatibilidade com o layout da UI
+        }))
+        // Fora da escala primeiro, depois por valor
+        .sort((a, b) => Number(a.onScale) - Number(b.onScale) || a.value - b.value);
+
+    return groups;
+}
+
+async function analyzeSpacing(
+    nodes: SceneNode[],
+    update?: FindingsUpdate
+) {
+    const scan = startScan("spacing", !!update);
+    const issues = await scanSpacing(nodes, scan, update);
+    if (!issues) return;
+
+    lastFindings.spacing = issues;
+    figma.ui.postMessage({
+        type: "result-spacing", groups: groupSpacingFindings(applyBaselineStatus(issues)), baseline: describeBaselineFilter(), incremental: !!update
+    });
+}
+
+// 🔥 Varre nodes com efeitos sem estilo nem variáveis vinculadas
+async function scanEffects(
+    nodes: SceneNode[],
+    scan: ScanContext,
+    update?: FindingsUpdate
+): Promise<EffectFinding[] | null> {
+    const findings: EffectFinding[] = await keepUnchangedFindings(lastFindings.effects, update);
+
+    function processNode(node: SceneNode, location: FindingLocation): void {
+        if (!("effects" in node) || !Array.isArray(node.effects)) return;
+
+        const effects = getAuditableEffects(node.effects);
+        if (effects.length === 0) return;
+
+        // Estilo de efeito aplicado ou variáveis vinculadas contam como token
+        const tokenized = ("effectStyleId" in node && typeof node.effectStyleId === "string" && node.effectStyleId !== "") ||
+            hasBoundEffectVariables(node.effects);
+        recordCoverage(scan, location, "effects", tokenized);
+        if (tokenized) return;
+
+        findings.push({ nodeId: node.id, nodeName: node.name, effects: JSON.parse(JSON.stringify(effects)), location, findingId: `effects:${node.id}` });
+        scan.findings++;
+    }
+
+    const items = update ? update.items : collectScanItems(nodes, undefined, undefined, true, walksSuppressedNodes(scan));
+    const completed = await processInChunks(scan, items, ({ node, location }) => processNode(node, location));
+    if (!completed) return null;
+    return traceComponentSources(scan, applySuppressions(findings, items, keepsSuppressedFindings(scan)), items, () => ["effects", "effectStyleId"]);
+}
+
+function groupEffectFindings(findings: EffectFinding[]) {
+    const map = new Map<string, EffectFinding[]>();
+    for (const finding of findings) {
+        const key = effectStackKey(finding.effects);
+        if (!map.has(key)) map.set(key, []);
+        map.get(key)!.push(finding);
+    }
+
+    return Array.from(map.values()).map(nodeStyles => {
+        const effects = nodeStyles[0].effects;
+        return {
+            title: Array.from(new Set(effects.map(e => EFFECT_TYPE_LABELS[e.type]))).join(" + "),
+            label: describeEffectStack(effects),
+            effects,
+            nodeStyles // Mesmo nome usado por tipografia/espaçamento na UI
+        };
+    });
+}
+
+async function analyzeEffects(
+    nodes: SceneNode[],
+    update?: FindingsUpdate
+) {
+    const scan = startScan("effects", !!update);
+    const findings = await scanEffects(nodes, scan, update);
+    if (!findings) return;
+
+    lastFindings.effects = findings;
+    figma.ui.postMessage({
+        type: "result-effects", groups: groupEffectFindings(applyBaselineStatus(findings)), baseline: describeBaselineFilter(), incremental: !!update
+    });
+}
+
+// 🔥 Componentes: frames desvinculados de instâncias, instâncias de componentes fora das
+// bibliotecas disponíveis e instâncias desatualizadas
+type ComponentIssueKind = "detached" | "off-library" | "outdated";
+
+interface ComponentFinding {
+    nodeId: string;
+    nodeName: string;
+    kind: ComponentIssueKind;
+    componentName: string;
+    canRelink: boolean; // dá para revincular (desvinculado) ou atualizar (desatualizado)
+    location?: FindingLocation;
+    findingId: string;
+    newSinceBaseline?: boolean;
+    suppressed?: SuppressionMark;
+}
+
+const COMPONENT_ISSUE_LABELS: { [kind in ComponentIssueKind]: string } = {
+    detached: "Desvinculados de componente",
+    "off-library": "Componentes fora das bibliotecas",
+    outdated: "Instâncias desatualizadas"
+};
+
+// Versão publicada do componente (importada para o arquivo); só usada ao revincular/atualizar
+async function importLibraryComponent(key: string): Promise<ComponentNode | null> {
+    return figma.importComponentByKeyAsync(key).catch(() => null);
+}
+
+// Componente local de onde o frame foi desvinculado, se ainda existir no arquivo
+async function findLocalDetachedComponent(info: DetachedInfo): Promise<ComponentNode | null> {
+    if (info.type !== "local") return null;
+    const node = await figma.getNodeByIdAsync(info.componentId).catch(() => null);
+    return node && node.type === "COMPONENT" && !node.removed ? node : null;
+}
+
+// Componente de onde o frame foi desvinculado; os de biblioteca são importados (só ao revincular)
+async function resolveDetachedComponent(frame: FrameNode): Promise<ComponentNode | null> {
+    const info = frame.detachedInfo;
+    if (!info) return null;
+    return info.type === "library" ? importLibraryComponent(info.componentKey) : findLocalDetachedComponent(info);
+}
+
+// 🔥 A varredura não importa nada: a situação do componente remoto vem do status de publicação
+// da cópia usada no arquivo (UNPUBLISHED = saiu da biblioteca, CHANGED = há versão mais nova)
+async function scanComponents(
+    nodes: SceneNode[],
+    scan: ScanContext,
+    update?: FindingsUpdate
+): Promise<ComponentFinding[] | null> {
+    const findings: ComponentFinding[] = await keepUnchangedFindings(lastFindings.components, update);
+
+    // Fase 1: candidatos síncronos. Instâncias aninhadas seguem o componente que as contém
+    const detached: ScanItem[] = [];
+    const instances: ScanItem[] = [];
+    const items = update ? update.items : collectScanItems(nodes, undefined, undefined, true, walksSuppressedNodes(scan));
+    const completed = await processInChunks(scan, items, item => {
+        const { node } = item;
+        if (node.id.startsWith("I")) return;
+        if (node.type === "FRAME" && node.detachedInfo) detached.push(item);
+        else if (node.type === "INSTANCE") instances.push(item);
+    });
+    if (!completed) return null;
+
+    // Fase 2: frames desvinculados (o de biblioteca só é conferido ao revincular)
+    for (const { node, location } of detached) {
+        const info = (node as FrameNode).detachedInfo!;
+        const component = await findLocalDetachedComponent(info);
+        findings.push({
+            nodeId: node.id,
+            nodeName: node.name,
+            location,
+            kind: "detached",
+            componentName: component ? describeComponentName(component) : info.type === "library" ? "Componente de biblioteca" : "Componente removido",
+            canRelink: info.type === "library" || !!component,
+            findingId: `components:${node.id}:detached`
+        });
+        scan.findings++;
+    }
+    if (isScanCancelled(scan)) return null;
+
+    // Fase 3: main components e status de publicação em lote (uma consulta por componente)
+    const mains = await Promise.all(instances.map(({ node }) => (node as InstanceNode).getMainComponentAsync().catch(() => null)));
+    const remoteMains = new Map<string, ComponentNode>();
+    for (const main of mains) {
+        if (main && main.remote) remoteMains.set(main.id, main);
+    }
+    const statuses = new Map<string, PublishStatus | null>();
+    await Promise.all(Array.from(remoteMains.values()).map(async main => {
+        statuses.set(main.id, await main.getPublishStatusAsync().catch(() => null));
+    }));
+    if (isScanCancelled(scan)) return null;
+
+    for (let i = 0; i < instances.length; i++) {
+        const main = mains[i];
+        if (!main || !main.remote) continue;
+
+        const status = statuses.get(main.id);
+        if (status !== "UNPUBLISHED" && status !== "CHANGED") continue;
+
+        const { node, location } = instances[i];
+        const kind: ComponentIssueKind = status === "CHANGED" ? "outdated" : "off-library";
+        findings.push({
+            nodeId: node.id,
+            nodeName: node.name,
+            location,
+            kind,
+            componentName: describeComponentName(main),
+            canRelink: kind === "outdated",
+            findingId: `components:${node.id}:${kind}`
+        });
+        scan.findings++;
+    }
+
+    return applySuppressions(findings, items, keepsSuppressedFindings(scan));
+}
+
+function groupComponentFindings(findings: ComponentFinding[]) {
+    return (Object.keys(COMPONENT_ISSUE_LABELS) as ComponentIssueKind[])
+        .map(kind => ({
+            kind,
+            title: COMPONENT_ISSUE_LABELS[kind],
+            nodeStyles: findings.filter(f => f.kind === kind) // Mesmo nome usado pelas outras abas na UI
+        }))
+        .filter(group => group.nodeStyles.length > 0);
+}
+
+async function analyzeComponents(
+    nodes: SceneNode[],
+    update?: FindingsUpdate
+) {
+    const scan = startScan("components", !!update);
+    const findings = await scanComponents(nodes, scan, update);
+    if (!findings) return;
+
+    lastFindings.components = findings;
+    figma.ui.postMessage({
+        type: "result-components", groups: groupComponentFindings(applyBaselineStatus(findings)), baseline: describeBaselineFilter(), incremental: !!update
+    });
+}
+
+interface AllScanResults {
+    colors: ColorFinding[];
+    typography: { findings: TextFinding[]; overrides: TextOverrideFinding[] };
+    spacing: SpacingFinding[];
+    effects: EffectFinding[];
+    components: ComponentFinding[];
+}
+
+// 🔥 Roda todas as varreduras em sequência (relatório, cobertura); null se cancelado pelo "cancel-analysis".
+// Com tally, as mesmas varreduras contam também o que está tokenizado; withSuppressed mantém as ignoradas
+async function runAllScans(
+    roots: SceneNode[],
+    coverage?: CoverageTally,
+    withSuppressed = false
+): Promise<AllScanResults | null> {
+    const runId = ++backgroundRunSeq;
+    const withCoverage = (scan: ScanContext) => {
+        scan.coverage = coverage;
+        scan.withSuppressed = withSuppressed;
+        return scan;
+    };
+
+    const colors = await scanColors(roots, withCoverage(startBackgroundScan("colors", runId)));
+    if (!colors) return null;
+    const typography = await scanTypography(roots, withCoverage(startBackgroundScan("typography", runId)));
+    if (!typography) return null;
+    const spacing = await scanSpacing(roots, withCoverage(startBackgroundScan("spacing", runId)));
+    if (!spacing) return null;
+    const effects = await scanEffects(roots, withCoverage(startBackgroundScan("effects", runId)));
+    if (!effects) return null;
+    const components = await scanComponents(roots, { ...startBackgroundScan("components", runId), withSuppressed });
+    if (!components) return null;
+
+    return { colors, typography, spacing, effects, components };
+}
+
+// 🔥 Executa a análise da aba ativa (completa, ou só dos nodes alterados com update)
+async function analyzeCurrentTab(
+    nodes: SceneNode[],
+    update?: FindingsUpdate
+) {
+    if (!update) {
+        rememberAnalyzedRoots(nodes);
+        forgetFindings(currentTab);
+    }
+
+    runningAnalyses++;
+    try {
+        if (currentTab === "colors") {
+            await analyzeColors(nodes, update);
+        } else if (currentTab === "typography") {
+            await analyzeTypography(nodes, update);
+        } else if (currentTab === "effects") {
+            await analyzeEffects(nodes, update);
+        } else if (currentTab === "components") {
+            await analyzeComponents(nodes, update);
+        } else {
+            await analyzeSpacing(nodes, update);
+        }
+    } finally {
+        runningAnalyses--;
+    }
+}
+
+/* ---------- TYPES ---------- */
+
+// Intervalo de caracteres [start, end) de um trecho de texto
+interface TextRange {
+    start: number;
+    end: number;
+}
+
+interface CustomTextStyle {
+    fontFamily: string;
+    fontStyle: string;
+    readableWeight?: string;
+    fontSize: any;
+    fontWeight: any;
+    lineHeight: any;
+    letterSpacing: any;
+}
+
+/* ---------- HELPERS ---------- */
+
+// 🔥 Coleta todos os frames válidos da seleção atual
+function getValidFramesFromSelection(): SceneNode[] {
+    const selection = figma.currentPage.selection;
+    const frames: SceneNode[] = [];
+
+    for (const node of selection) {
+        let current: SceneNode | null = node;
+
+        while (
+            current &&
+            current.type !== "FRAME" &&
+            current.type !== "COMPONENT" &&
+            current.type !== "INSTANCE" &&
+            current.type !== "SECTION"
+        ) {
+            current = current.parent as SceneNode;
+        }
+
+        if (current && !frames.some(f => f.id === current!.id)) {
+            frames.push(current as FrameNode | ComponentNode | InstanceNode | SectionNode);
+        }
+    }
+
+    return frames;
+}
+
+// 🔥 Resolve os frames a analisar: os do escopo de página/documento, os últimos frames raiz
+// ou, na falta deles, a seleção atual
+async function resolveAnalysisRoots(): Promise<SceneNode[]> {
+    const scopeRoots = await resolveScopeRoots();
+    if (scopeRoots) return scopeRoots;
+
+    const roots: SceneNode[] = [];
+
+    for (const id of rootFrameIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (node && (node.type === "FRAME" || node.type === "COMPONENT" || node.type === "INSTANCE" || node.type === "SECTION")) {
+            roots.push(node);
+        }
+    }
+
+    return roots.length > 0 ? roots : getValidFramesFromSelection();
+}
+
+// Página e frame raiz onde uma finding foi encontrada
+interface FindingLocation {
+    pageId: string;
+    pageName: string;
+    frameId: string;
+    frameName: string;
+}
+
+function describeRootLocation(root: SceneNode): FindingLocation {
+    let page: BaseNode | null = root.parent;
+    while (page && page.type !== "PAGE") page = page.parent;
+    return { pageId: page?.id ?? "", pageName: page?.name ?? "", frameId: root.id, frameName: root.name };
+}
+
+// Nodes de primeiro nível de uma página: frames ("telas") e também grupos, textos e formas soltos,
+// cada um como root próprio
+function getTopLevelRoots(page: PageNode): SceneNode[] {
+    return page.children.slice();
+}
+
+// Páginas já carregadas nesta sessão (documentAccess: dynamic-page — depois de carregada, a página continua disponível)
+const loadedPageIds = new Set<string>();
+
+// 🔥 Roots do escopo de página/documento; null no escopo "selection" (cada handler mantém seu fluxo).
+// No documento, todas as páginas são carregadas antes da varredura; só as ainda não carregadas avisam a UI
+async function resolveScopeRoots(): Promise<SceneNode[] | null> {
+    if (analysisScope === "selection") return null;
+    if (analysisScope === "page") return getTopLevelRoots(figma.currentPage);
+
+    const roots: SceneNode[] = [];
+    for (const page of figma.root.children) {
+        if (!loadedPageIds.has(page.id) && page !== figma.currentPage) {
+            figma.ui.postMessage({ type: "scope-loading-page", pageName: page.name });
+            await page.loadAsync();
+        }
+        loadedPageIds.add(page.id);
+        roots.push(...getTopLevelRoots(page));
+    }
+    return roots;
+}
+
+// Página de um node (para trocar de página antes de selecionar no documento)
+function getNodePage(node: BaseNode): PageNode | null {
+    let current: BaseNode | null = node;
+    while (current && current.type !== "PAGE") current = current.parent;
+    return current;
+}
+
+// 🔥 Vincula (ou desvincula, com null) uma variável de cor a uma camada específica do paint stack
+function bindPaintVariable(node: SceneNode, isStroke: boolean, paintIndex: number, variable: Variable | null): boolean {
+    const prop = isStroke ? "strokes" : "fills";
+    if (!(prop in node)) return false;
+
+    const paints = (node as any)[prop];
+    if (!Array.isArray(paints) || !paints[paintIndex] || paints[paintIndex].type !== "SOLID") return false;
+
+    (node as any)[prop] = paints.map((paint: Paint, i: number) =>
+        i === paintIndex ? figma.variables.setBoundVariableForPaint(paint as SolidPaint, "color", variable) : paint
+    );
+    return true;
+}
+
+// 🔥 Vincula (ou desvincula, com null) uma variável de cor a um stop de gradiente
+function bindGradientStopVariable(
+    node: SceneNode,
+    isStroke: boolean,
+    paintIndex: number,
+    stopIndex: number,
+    variable: Variable | null
+): boolean {
+    const prop = isStroke ? "strokes" : "fills";
+    if (!(prop in node)) return false;
+
+    const paints = (node as any)[prop];
+    const paint = Array.isArray(paints) ? paints[paintIndex] : null;
+    if (!paint || !isGradientPaint(paint) || !paint.gradientStops[stopIndex]) return false;
+
+    const gradientStops = paint.gradientStops.map((stop, i) => {
+        if (i !== stopIndex) return stop;
+        if (variable) {
+            return { ...stop, boundVariables: { color: figma.variables.createVariableAlias(variable) } };
+        }
+        return { position: stop.position, color: stop.color };
+    });
+
+    (node as any)[prop] = paints.map((p: Paint, i: number) => i === paintIndex ? { ...paint, gradientStops } : p);
+    return true;
+}
+
+// 🔥 Restaura um stop de gradiente ao estado original (ou apenas desvincula a variável)
+function restoreGradientStop(
+    node: SceneNode,
+    isStroke: boolean,
+    paintIndex: number,
+    stopIndex: number,
+    originalState: OriginalNodeState | undefined
+): void {
+    const prop = isStroke ? "strokes" : "fills";
+    const paints = (node as any)[prop];
+    const paint = Array.isArray(paints) ? paints[paintIndex] : null;
+    const originalPaints = isStroke ? originalState?.strokes : originalState?.fills;
+    const originalPaint = originalPaints?.[paintIndex];
+
+    if (
+        paint && isGradientPaint(paint) &&
+        originalPaint && isGradientPaint(originalPaint) &&
+        originalPaint.gradientStops.length === paint.gradientStops.length
+    ) {
+        const gradientStops = paint.gradientStops.map((stop, i) => i === stopIndex ? originalPaint.gradientStops[i] : stop);
+        (node as any)[prop] = paints.map((p: Paint, i: number) => i === paintIndex ? { ...paint, gradientStops } : p);
+        return;
+    }
+
+    bindGradientStopVariable(node, isStroke, paintIndex, stopIndex, null);
+}
+
+// 🔥 Restaura uma camada de paint ao estado original (ou apenas desvincula a variável)
+async function restorePaintLayer(
+    node: SceneNode,
+    isStroke: boolean,
+    paintIndex: number,
+    originalState: OriginalNodeState | undefined
+): Promise<void> {
+    const prop = isStroke ? "strokes" : "fills";
+    if (!(prop in node)) return;
+
+    const originalStyleId = isStroke ? originalState?.strokeStyleId : originalState?.fillStyleId;
+    const currentStyleId = isStroke ? (node as any).strokeStyleId : (node as any).fillStyleId;
+    const setStyleId = async (id: string) => {
+        if (isStroke && "setStrokeStyleIdAsync" in node) await node.setStrokeStyleIdAsync(id);
+        if (!isStroke && "setFillStyleIdAsync" in node) await node.setFillStyleIdAsync(id);
+    };
+
+    // Estilos de paint substituem a pilha inteira — volta ao estilo original, se havia um
+    if (typeof originalStyleId === "string" && originalStyleId !== "") {
+        await setStyleId(originalStyleId);
+        return;
+    }
+
+    const originalPaints = isStroke ? originalState?.strokes : originalState?.fills;
+
+    if (typeof currentStyleId === "string" && currentStyleId !== "") {
+        await setStyleId("");
+        if (originalPaints !== undefined) (node as any)[prop] = originalPaints;
+        return;
+    }
+
+    // Variável: restaura só a camada alvo, preservando as demais
+    const paints = (node as any)[prop];
+    if (originalPaints && Array.isArray(paints) && originalPaints.length === paints.length && originalPaints[paintIndex]) {
+        (node as any)[prop] = paints.map((paint: Paint, i: number) => i === paintIndex ? originalPaints[paintIndex] : paint);
+    } else {
+        bindPaintVariable(node, isStroke, paintIndex, null);
+    }
+}
+
+// Campos que separam os trechos de um texto misto
+const STYLED_SEGMENT_FIELDS: (
+    "fontName" | "fontSize" | "fontWeight" | "lineHeight" | "letterSpacing" | "textCase" | "textDecoration" | "textStyleId"
+)[] = [
+    "fontName", "fontSize", "fontWeight", "lineHeight", "letterSpacing", "textCase", "textDecoration", "textStyleId"
+];
+
+// Texto com mais de um estilo ou propriedade de fonte variando ao longo dos caracteres
+function isMixedText(node: TextNode): boolean {
+    return node.textStyleId === figma.mixed ||
+        node.fontName === figma.mixed ||
+        node.fontSize === figma.mixed ||
+        node.fontWeight === figma.mixed ||
+        node.lineHeight === figma.mixed ||
+        node.letterSpacing === figma.mixed;
+}
+
+// Snapshot de um intervalo de caracteres (mesmos campos do snapshot do node inteiro)
+function snapshotTextRange(node: TextNode, range: TextRange): NodeSnapshot {
+    const { start, end } = range;
+    const snapshot: NodeSnapshot = { textRange: { start, end } };
+
+    const textStyleId = node.getRangeTextStyleId(start, end);
+    snapshot.textStyleId = typeof textStyleId === "string" ? textStyleId : "";
+
+    const fontName = node.getRangeFontName(start, end);
+    if (fontName !== figma.mixed) snapshot.fontName = fontName;
+    const fontSize = node.getRangeFontSize(start, end);
+    if (fontSize !== figma.mixed) snapshot.fontSize = fontSize;
+    const lineHeight = node.getRangeLineHeight(start, end);
+    if (lineHeight !== figma.mixed) snapshot.lineHeight = lineHeight;
+    const letterSpacing = node.getRangeLetterSpacing(start, end);
+    if (letterSpacing !== figma.mixed) snapshot.letterSpacing = letterSpacing;
+    const textCase = node.getRangeTextCase(start, end);
+    if (textCase !== figma.mixed) snapshot.textCase = textCase;
+    const textDecoration = node.getRangeTextDecoration(start, end);
+    if (textDecoration !== figma.mixed) snapshot.textDecoration = textDecoration;
+
+    return snapshot;
+}
+
+// 🔥 Restaura um intervalo de texto: o estilo original ou as propriedades soltas
+async function restoreTextRange(node: TextNode, snapshot: NodeSnapshot): Promise<void> {
+    if (!snapshot.textRange) return;
+    const { start, end } = snapshot.textRange;
+
+    await Promise.all(node.getRangeAllFontNames(start, end).map(font => figma.loadFontAsync(font)));
+
+    if (snapshot.textStyleId) {
+        const style = await figma.getStyleByIdAsync(snapshot.textStyleId);
+        if (style && style.type === "TEXT") {
+            await figma.loadFontAsync((style as TextStyle).fontName);
+            await node.setRangeTextStyleIdAsync(start, end, snapshot.textStyleId);
+            await applyTextOverrides(node, snapshot, style as TextStyle);
+            return;
+        }
+    }
+
+    await node.setRangeTextStyleIdAsync(start, end, "");
+    if (snapshot.fontName) {
+        await figma.loadFontAsync(snapshot.fontName);
+        node.setRangeFontName(start, end, snapshot.fontName);
+    }
+    if (snapshot.fontSize !== undefined) node.setRangeFontSize(start, end, snapshot.fontSize);
+    if (snapshot.lineHeight !== undefined) node.setRangeLineHeight(start, end, snapshot.lineHeight);
+    if (snapshot.letterSpacing !== undefined) node.setRangeLetterSpacing(start, end, snapshot.letterSpacing);
+    if (snapshot.textCase !== undefined) node.setRangeTextCase(start, end, snapshot.textCase);
+    if (snapshot.textDecoration !== undefined) node.setRangeTextDecoration(start, end, snapshot.textDecoration);
+}
+
+/* ---------- TEXT OVERRIDES ---------- */
+
+// Propriedade de um texto com estilo que difere do TextStyle aplicado
+interface TextOverride {
+    property: keyof NodeSnapshot;
+    label: string;
+    styleValue: string;
+    actualValue: string;
+}
+
+const TEXT_OVERRIDE_LABELS: { [property: string]: string } = {
+    fontName: "Fonte",
+    fontSize: "Tamanho",
+    lineHeight: "Altura de linha",
+    letterSpacing: "Espaçamento entre letras",
+    textCase: "Caixa",
+    textDecoration: "Decoração",
+    paragraphSpacing: "Espaço entre parágrafos",
+    paragraphIndent: "Recuo de parágrafo"
+};
+
+function formatTextNumber(value: number): string {
+    return `${parseFloat(value.toFixed(2))}`;
+}
+
+function formatLineHeight(lineHeight: LineHeight): string {
+    if (lineHeight.unit === "AUTO") return "Auto";
+    return `${formatTextNumber(lineHeight.value)}${lineHeight.unit === "PERCENT" ? "%" : "px"}`;
+}
+
+function formatLetterSpacing(letterSpacing: LetterSpacing): string {
+    return `${formatTextNumber(letterSpacing.value)}${letterSpacing.unit === "PERCENT" ? "%" : "px"}`;
+}
+
+// 🔥 Compara os valores reais (node ou trecho) com o estilo; retorna só o que foi sobrescrito
+function findTextOverrides(actual: NodeSnapshot, style: TextStyle): TextOverride[] {
+    const overrides: TextOverride[] = [];
+    const compare = (property: keyof NodeSnapshot, styleValue: string, actualValue: string) => {
+        if (styleValue !== actualValue) {
+            overrides.push({ property, label: TEXT_OVERRIDE_LABELS[property], styleValue, actualValue });
+        }
+    };
+
+    if (actual.fontName) {
+        compare("fontName", `${style.fontName.family} ${style.fontName.style}`, `${actual.fontName.family} ${actual.fontName.style}`);
+    }
+    if (actual.fontSize !== undefined) {
+        compare("fontSize", `${formatTextNumber(style.fontSize)}px`, `${formatTextNumber(actual.fontSize)}px`);
+    }
+    if (actual.lineHeight) compare("lineHeight", formatLineHeight(style.lineHeight), formatLineHeight(actual.lineHeight));
+    if (actual.letterSpacing) compare("letterSpacing", formatLetterSpacing(style.letterSpacing), formatLetterSpacing(actual.letterSpacing));
+    if (actual.textCase) compare("textCase", style.textCase, actual.textCase);
+    if (actual.textDecoration) compare("textDecoration", style.textDecoration, actual.textDecoration);
+    if (actual.paragraphSpacing !== undefined) {
+        compare("paragraphSpacing", `${formatTextNumber(style.paragraphSpacing)}px`, `${formatTextNumber(actual.paragraphSpacing)}px`);
+    }
+    if (actual.paragraphIndent !== undefined) {
+        compare("paragraphIndent", `${formatTextNumber(style.paragraphIndent)}px`, `${formatTextNumber(actual.paragraphIndent)}px`);
+    }
+
+    return overrides;
+}
+
+// Reaplica por cima do estilo só as propriedades do snapshot que diferem dele
+async function applyTextOverrides(node: TextNode, snapshot: NodeSnapshot, style: TextStyle): Promise<void> {
+    const overrides = findTextOverrides(snapshot, style);
+    if (overrides.length === 0) return;
+
+    const range = snapshot.textRange;
+    for (const { property } of overrides) {
+        if (property === "fontName" && snapshot.fontName) {
+            await figma.loadFontAsync(snapshot.fontName);
+            if (range) node.setRangeFontName(range.start, range.end, snapshot.fontName);
+            else node.fontName = snapshot.fontName;
+        } else if (property === "fontSize" && snapshot.fontSize !== undefined) {
+            if (range) node.setRangeFontSize(range.start, range.end, snapshot.fontSize);
+            else node.fontSize = snapshot.fontSize;
+        } else if (property === "lineHeight" && snapshot.lineHeight) {
+            if (range) node.setRangeLineHeight(range.start, range.end, snapshot.lineHeight);
+            else node.lineHeight = snapshot.lineHeight;
+        } else if (property === "letterSpacing" && snapshot.letterSpacing) {
+            if (range) node.setRangeLetterSpacing(range.start, range.end, snapshot.letterSpacing);
+            else node.letterSpacing = snapshot.letterSpacing;
+        } else if (property === "textCase" && snapshot.textCase) {
+            if (range) node.setRangeTextCase(range.start, range.end, snapshot.textCase);
+            else node.textCase = snapshot.textCase;
+        } else if (property === "textDecoration" && snapshot.textDecoration) {
+            if (range) node.setRangeTextDecoration(range.start, range.end, snapshot.textDecoration);
+            else node.textDecoration = snapshot.textDecoration;
+        } else if (property === "paragraphSpacing" && snapshot.paragraphSpacing !== undefined) {
+            node.paragraphSpacing = snapshot.paragraphSpacing;
+        } else if (property === "paragraphIndent" && snapshot.paragraphIndent !== undefined) {
+            node.paragraphIndent = snapshot.paragraphIndent;
+        }
+    }
+}
+
+// 🔥 Volta o texto (ou trecho) exatamente ao estilo: desvincula e aplica de novo
+async function resetTextToStyle(node: TextNode, style: TextStyle, range?: TextRange): Promise<void> {
+    await figma.loadFontAsync(style.fontName);
+    if (range) {
+        await Promise.all(node.getRangeAllFontNames(range.start, range.end).map(font => figma.loadFontAsync(font)));
+        await node.setRangeTextStyleIdAsync(range.start, range.end, "");
+        await node.setRangeTextStyleIdAsync(range.start, range.end, style.id);
+    } else {
+        await Promise.all(node.getRangeAllFontNames(0, node.characters.length).map(font => figma.loadFontAsync(font)));
+        await node.setTextStyleIdAsync("");
+        await node.setTextStyleIdAsync(style.id);
+    }
+}
+
+/* ---------- TEXT MATCHING ---------- */
+
+// Estilo de texto sugerido (com as propriedades que entram na comparação)
+interface TextToken {
+    name: string;
+    styleId: string;
+    fontFamily?: string;
+    fontStyle?: string;
+    fontSize?: number;
+    lineHeight?: LineHeight;
+    letterSpacing?: LetterSpacing;
+    textCase?: TextCase;
+    textDecoration?: TextDecoration;
+    source?: TokenSource;
+}
+
+// Uma linha do detalhamento: valor do estilo vs valor do texto
+interface TextMatchProperty {
+    property: keyof TextMatchSettings;
+    label: string;
+    styleValue: string;
+    actualValue: string;
+    match: boolean;
+}
+
+interface TextMatchResult {
+    distance: number;
+    exact: boolean;
+    breakdown: TextMatchProperty[];
+}
+
+const TEXT_MATCH_LABELS: { [property in keyof TextMatchSettings]: string } = {
+    fontFamily: "Família",
+    fontWeight: "Peso",
+    fontSize: TEXT_OVERRIDE_LABELS.fontSize,
+    lineHeight: TEXT_OVERRIDE_LABELS.lineHeight,
+    letterSpacing: TEXT_OVERRIDE_LABELS.letterSpacing,
+    textCase: TEXT_OVERRIDE_LABELS.textCase,
+    textDecoration: TEXT_OVERRIDE_LABELS.textDecoration
+};
+
+const READABLE_WEIGHTS: { [weight: string]: number } = {
+    Thin: 100,
+    ExtraLight: 200,
+    Light: 300,
+    Regular: 400,
+    Medium: 500,
+    SemiBold: 600,
+    Bold: 700,
+    ExtraBold: 800,
+    Black: 900
+};
+
+function fontStyleToWeight(fontStyle: string): number {
+    return READABLE_WEIGHTS[extractReadableWeight(fontStyle)] ?? 400;
+}
+
+function isItalicStyle(fontStyle: string): boolean {
+    return /italic|oblique/i.test(fontStyle);
+}
+
+// Altura de linha em px para comparar unidades diferentes (Auto ≈ 120% do tamanho)
+function lineHeightToPx(lineHeight: LineHeight, fontSize: number): number {
+    if (lineHeight.unit === "AUTO") return fontSize * 1.2;
+    return lineHeight.unit === "PERCENT" ? (lineHeight.value / 100) * fontSize : lineHeight.value;
+}
+
+function letterSpacingToPx(letterSpacing: LetterSpacing, fontSize: number): number {
+    return letterSpacing.unit === "PERCENT" ? (letterSpacing.value / 100) * fontSize : letterSpacing.value;
+}
+
+// 🔥 Pontua um estilo contra o texto: distância ponderada + detalhamento por propriedade.
+// Só entram as propriedades conhecidas dos dois lados (valores "Mixed" ficam de fora)
+function scoreTextStyleMatch(actual: NodeSnapshot, token: TextToken): TextMatchResult {
+    const weights = textMatchSettings.current;
+    const breakdown: TextMatchProperty[] = [];
+    let distance = 0;
+
+    const add = (property: keyof TextMatchSettings, styleValue: string, actualValue: string, penalty: number) => {
+        // Peso 0 desliga a propriedade: não pontua nem impede o "exato"
+        if (weights[property] === 0) return;
+        const match = styleValue === actualValue;
+        breakdown.push({ property, label: TEXT_MATCH_LABELS[property], styleValue, actualValue, match });
+        if (!match) distance += penalty;
+    };
+
+    const fontSize = actual.fontSize ?? token.fontSize;
+
+    if (actual.fontName && token.fontFamily) {
+        add("fontFamily", token.fontFamily, actual.fontName.family, weights.fontFamily);
+    }
+    if (actual.fontName && token.fontStyle) {
+        const weightDiff = Math.abs(fontStyleToWeight(token.fontStyle) - fontStyleToWeight(actual.fontName.style)) / 100;
+        const italicDiff = isItalicStyle(token.fontStyle) !== isItalicStyle(actual.fontName.style) ? 1 : 0;
+        add("fontWeight", token.fontStyle, actual.fontName.style, (weightDiff + italicDiff) * weights.fontWeight);
+    }
+    if (actual.fontSize !== undefined && token.fontSize !== undefined) {
+        add("fontSize", `${formatTextNumber(token.fontSize)}px`, `${formatTextNumber(actual.fontSize)}px`,
+            Math.abs(token.fontSize - actual.fontSize) * weights.fontSize);
+    }
+    if (actual.lineHeight && token.lineHeight && fontSize !== undefined) {
+        add("lineHeight", formatLineHeight(token.lineHeight), formatLineHeight(actual.lineHeight),
+            Math.abs(lineHeightToPx(token.lineHeight, fontSize) - lineHeightToPx(actual.lineHeight, fontSize)) * weights.lineHeight);
+    }
+    if (actual.letterSpacing && token.letterSpacing && fontSize !== undefined) {
+        add("letterSpacing", formatLetterSpacing(token.letterSpacing), formatLetterSpacing(actual.letterSpacing),
+            Math.abs(letterSpacingToPx(token.letterSpacing, fontSize) - letterSpacingToPx(actual.letterSpacing, fontSize)) * weights.letterSpacing);
+    }
+    if (actual.textCase && token.textCase) {
+        add("textCase", token.textCase, actual.textCase, weights.textCase);
+    }
+    if (actual.textDecoration && token.textDecoration) {
+        add("textDecoration", token.textDecoration, actual.textDecoration, weights.textDecoration);
+    }
+
+    return {
+        distance: parseFloat(distance.toFixed(2)),
+        exact: breakdown.length > 0 && breakdown.every(p => p.match),
+        breakdown
+    };
+}
+
+// Ordena os estilos do mais próximo ao mais distante do texto atual
+function rankTextTokens(tokens: TextToken[], actual: NodeSnapshot): (TextToken & TextMatchResult)[] {
+    return tokens
+        .map(token => ({ ...token, ...scoreTextStyleMatch(actual, token) }))
+        .sort((a, b) => a.distance - b.distance);
+}
+
+/* ---------- TOKEN CREATION ---------- */
+
+type CreateTokenKind = "color" | "text" | "spacing";
+
+const CREATE_TOKEN_KINDS: CreateTokenKind[] = ["color", "text", "spacing"];
+
+// Valor do grupo usado para nomear e criar o token (cor em hex ou número de spacing)
+interface CreateTokenSource {
+    kind: CreateTokenKind;
+    hex: string;
+    value: number;
+    field?: AuditField;     // Campo da entrada atual (prefixo sugerido)
+    fields: AuditField[];   // Campos de todas as entradas do grupo (escopo da variável)
+}
+
+function isAuditField(value: unknown): value is AuditField {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(FIELD_SCOPES, value);
+}
+
+// 🔥 Valida a mensagem da UI antes de nomear/criar o token
+function parseCreateTokenSource(msg: any): CreateTokenSource {
+    if (!CREATE_TOKEN_KINDS.includes(msg.kind)) throw new Error("Tipo de token inválido");
+    if (msg.field != null && !isAuditField(msg.field)) throw new Error("Campo inválido");
+    if (msg.fields != null && !(Array.isArray(msg.fields) && msg.fields.every(isAuditField))) throw new Error("Campo inválido");
+
+    const field: AuditField | undefined = msg.field ?? undefined;
+    const source: CreateTokenSource = {
+        kind: msg.kind,
+        hex: typeof msg.hex === "string" ? msg.hex : "",
+        value: Number(msg.value),
+        field,
+        fields: msg.fields ?? (field ? [field] : [])
+    };
+    if (source.kind === "color" && !hexToRgb(source.hex)) throw new Error("Cor inválida");
+    if (source.kind === "spacing" && !Number.isFinite(source.value)) throw new Error("Valor inválido");
+    return source;
+}
+
+// Prefixo configurado que combina com a categoria (ex.: "Base Color/" para cores)
+const CREATE_TOKEN_PREFIX_HINTS: { [kind in CreateTokenKind]: RegExp } = {
+    color: /colou?r|\bcor/i,
+    text: /text|type|typo|font/i,
+    spacing: /spac|espa/i
+};
+
+function pickNamingPrefix(kind: CreateTokenKind, field?: AuditField): string {
+    const prefixes = namingSettings.current.validPrefixes;
+    if (field === "radius") {
+        const radiusPrefix = prefixes.find(p => /radius|raio/i.test(p));
+        if (radiusPrefix) return radiusPrefix;
+    }
+    return prefixes.find(p => CREATE_TOKEN_PREFIX_HINTS[kind].test(p)) ?? "";
+}
+
+// 🔥 Nome sugerido para o token novo, seguindo os prefixos das regras de nomenclatura
+function suggestTokenName(source: CreateTokenSource, actual?: NodeSnapshot): string {
+    const { kind } = source;
+    const prefix = pickNamingPrefix(kind, source.field);
+    if (kind === "color") return `${prefix}${source.hex.replace("#", "").toUpperCase()}`;
+    if (kind === "spacing") return `${prefix}${formatTextNumber(source.value)}`;
+    if (actual?.fontName && actual.fontSize !== undefined) {
+        return `${prefix}${actual.fontName.family}/${formatTextNumber(actual.fontSize)} ${actual.fontName.style}`;
+    }
+    return prefix;
+}
+
+// Propriedades do texto (node inteiro ou trecho) usadas para criar um estilo
+async function readTextSnapshot(nodeId: string, range?: TextRange): Promise<{ node: TextNode; actual: NodeSnapshot }> {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node || node.type !== "TEXT") throw new Error("Elemento não é texto");
+    const actual = range ? snapshotTextRange(node, range) : snapshotNode(node, "typography", ["textStyleId"]);
+    return { node, actual };
+}
+
+// 🔥 Cria um TextStyle com as propriedades reais do texto (node inteiro ou trecho)
+async function createTextStyleFromSnapshot(name: string, node: TextNode, actual: NodeSnapshot, range?: TextRange): Promise<TextStyle> {
+    if (!actual.fontName || actual.fontSize === undefined) throw new Error("Trecho com fontes mistas");
+
+    await figma.loadFontAsync(actual.fontName);
+    const style = figma.createTextStyle();
+    style.name = name;
+    style.fontName = actual.fontName;
+    style.fontSize = actual.fontSize;
+    if (actual.lineHeight) style.lineHeight = actual.lineHeight;
+    if (actual.letterSpacing) style.letterSpacing = actual.letterSpacing;
+    if (actual.textCase) style.textCase = actual.textCase;
+    if (actual.textDecoration) style.textDecoration = actual.textDecoration;
+    style.paragraphSpacing = range ? node.paragraphSpacing : actual.paragraphSpacing ?? 0;
+    style.paragraphIndent = range ? node.paragraphIndent : actual.paragraphIndent ?? 0;
+    return style;
+}
+
+// Coleção escolhida ou uma nova com o nome informado
+async function resolveTargetCollection(collectionId: string | null, collectionName: string): Promise<VariableCollection> {
+    if (collectionId) {
+        const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
+        if (!collection) throw new Error("Coleção não encontrada");
+        return collection;
+    }
+    return figma.variables.createVariableCollection(collectionName.trim() || "Tokens");
+}
+
+// 🔥 Cria a variável (COLOR/FLOAT) com o mesmo valor em todos os modos da coleção
+async function createVariableFromGroup(
+    source: CreateTokenSource,
+    name: string,
+    collection: VariableCollection
+): Promise<Variable> {
+    const color = source.kind === "color" ? hexToRgb(source.hex) : null;
+    if (source.kind === "color" && !color) throw new Error("Cor inválida");
+    const value: VariableValue = color ?? source.value;
+
+    const variable = figma.variables.createVariable(name, collection, color ? "COLOR" : "FLOAT");
+    for (const mode of collection.modes) {
+        variable.setValueForMode(mode.modeId, value);
+    }
+
+    // 🔥 Escopo só dos campos do grupo: sem ALL_SCOPES (nem ALL_FILLS, que não combina com os de preenchimento)
+    const scopes = new Set<VariableScope>();
+    for (const field of source.fields) FIELD_SCOPES[field].forEach(scope => scopes.add(scope));
+    scopes.delete("ALL_SCOPES");
+    scopes.delete("ALL_FILLS");
+    if (scopes.size > 0) variable.scopes = Array.from(scopes);
+    return variable;
+}
+
+/* ---------- AUTO-FIX ---------- */
+
+interface AutoFixChange {
+    nodeId: string;
+    nodeName: string;
+    category: "color" | "typography" | "spacing";
+    property: string;       // fills | strokes | textStyleId | itemSpacing | paddingTop | cornerRadius ...
+    label: string;          // Rótulo exibido na UI (ex: "Fill", "Padding Top")
+    paintIndex?: number;
+    value: string;
+    tokenId: string;
+    tokenName: string;
+    tokenType: "VARIABLE" | "STYLE";
+    inInstance?: boolean;   // Aplicar cria override na instância
+}
+
+interface AutoFixSkip {
+    nodeId: string;
+    nodeName: string;
+    category: "color" | "typography" | "spacing";
+    label: string;
+    value: string;
+    reason: string;
+}
+
+const SPACING_FIELDS: { prop: string; label: string }[] = [
+    { prop: "itemSpacing", label: "Gap" },
+    { prop: "paddingTop", label: "Padding Top" },
+    { prop: "paddingBottom", label: "Padding Bottom" },
+    { prop: "paddingLeft", label: "Padding Left" },
+    { prop: "paddingRight", label: "Padding Right" }
+];
+
+const RADIUS_FIELDS: { prop: string; label: string }[] = [
+    { prop: "topLeftRadius", label: "Border Radius Top Left" },
+    { prop: "topRightRadius", label: "Border Radius Top Right" },
+    { prop: "bottomLeftRadius", label: "Border Radius Bottom Left" },
+    { prop: "bottomRightRadius", label: "Border Radius Bottom Right" }
+];
+
+// Chave de comparação de line height (AUTO ou valor + unidade)
+function lineHeightKey(lineHeight: LineHeight): string {
+    return lineHeight.unit === "AUTO" ? "AUTO" : `${lineHeight.value}${lineHeight.unit}`;
+}
+
+// Escolhe o único token candidato; quando há mais de um, tenta desempatar pelo nome
+function pickSingleCandidate<T extends { name: string }>(candidates: T[], prefer?: (c: T) => boolean): T | null {
+    if (candidates.length === 1) return candidates[0];
+    if (prefer) {
+        const preferred = candidates.filter(prefer);
+        if (preferred.length === 1) return preferred[0];
+    }
+    return null;
+}
+
+// 🔥 Monta o plano de correção: todo valor cru que é idêntico a um token existente
+async function buildAutoFixPlan(
+    roots: SceneNode[]
+): Promise<{ changes: AutoFixChange[]; skipped: AutoFixSkip[] }> {
+    const changes: AutoFixChange[] = [];
+    const skipped: AutoFixSkip[] = [];
+
+    // ── Tokens de cor: aplicados na página + variáveis COLOR locais ──────────
+    const colorCandidates: ColorToken[] = [];
+    const addColorCandidate = (candidate: ColorToken) => {
+        if (!colorCandidates.some(c => c.styleId === candidate.styleId)) colorCandidates.push(candidate);
+    };
+
+    const pageColorTokens = await collectAppliedColorTokens([]);
+    for (const token of pageColorTokens) {
+        if (!token.styleId) continue;
+        addColorCandidate({ ...token, type: token.type ?? "STYLE" });
+    }
+
+    const localColorVars = await figma.variables.getLocalVariablesAsync("COLOR").catch(() => [] as Variable[]);
+    const lookup: CollectionLookup = new Map();
+    for (const variable of localColorVars) {
+        const cleanName = removeTokenPrefix(variable.name);
+        if (!isValidTokenName(cleanName)) continue;
+        if (colorCandidates.some(c => c.styleId === variable.id)) continue;
+        const token = await buildColorVariableToken(variable, cleanName, lookup);
+        if (token.modes && token.modes.length > 0) addColorCandidate(token);
+    }
+
+    // Candidatos no modo de cada node (aliases entre coleções), uma vez por combinação de modos
+    const inSelectionCache = new Map<string, Promise<{ colors: ColorToken[]; spacing: SpacingToken[] }>>();
+    const tokensInSelection = (modeSelection: ModeSelection) => {
+        const key = JSON.stringify(modeSelection);
+        let pending = inSelectionCache.get(key);
+        if (!pending) {
+            pending = Promise.all([
+                resolveTokensInSelection(colorCandidates, modeSelection, colorTokenInMode),
+                resolveTokensInSelection(spacingTokens, modeSelection, spacingTokenInMode)
+            ]).then(([colors, spacing]) => ({ colors, spacing }));
+            inSelectionCache.set(key, pending);
+        }
+        return pending;
+    };
+
+    // Compara no modo em que o node é renderizado, só com variáveis cujo escopo aceita o campo
+    const colorCandidatesFor = async (hex: string, modeSelection: ModeSelection, field: AuditField) =>
+        (await tokensInSelection(modeSelection)).colors
+            .filter(c => allowsField(c, field))
+            .filter(c => (pickTokenMode(c, modeSelection)?.hex ?? c.hex).toUpperCase() === hex.toUpperCase())
+            .map(c => ({ name: c.name, styleId: c.styleId as string, type: c.type ?? "STYLE" }));
+
+    // ── Estilos de texto: aplicados na página + locais ────────────────────────
+    const { textStyleIds } = collectIdsSync(figma.currentPage);
+    const localTextStyles = await figma.getLocalTextStylesAsync().catch(() => [] as TextStyle[]);
+    for (const style of localTextStyles) textStyleIds.add(style.id);
+
+    const textStyles = await Promise.all(
+        Array.from(textStyleIds).map(id => figma.getStyleByIdAsync(id).catch(() => null))
+    );
+    const textByKey = new Map<string, { name: string; styleId: string }[]>();
+    for (const style of textStyles) {
+        if (!style || style.type !== "TEXT") continue;
+        const ts = style as TextStyle;
+        const key = `${ts.fontName.family}|${ts.fontName.style}|${ts.fontSize}|${lineHeightKey(ts.lineHeight)}`;
+        const list = textByKey.get(key) ?? [];
+        list.push({ name: ts.name, styleId: ts.id });
+        textByKey.set(key, list);
+    }
+
+    // ── Tokens de espaçamento ─────────────────────────────────────────────────
+    const spacingTokens = await loadSpacingTokens();
+    const isRadiusName = (c: { name: string }) => /radius|raio|corner/i.test(c.name);
+
+    // 🔥 Só cria override novo quando o valor ainda vem do componente (já ser override não muda nada)
+    const mains: MainComponentLookup = new Map();
+    const createsInstanceOverride = async (node: SceneNode, fields: string[]) =>
+        (await traceComponentSource(node, fields, mains))?.origin === "inherited";
+
+    async function checkSpacing(node: SceneNode, prop: string, label: string, value: number, isRadius: boolean) {
+        if (value <= 0) return;
+        const bound = (node as any).boundVariables;
+        if (bound && bound[prop]) return;
+
+        const modeSelection = getAuditModeSelection(node);
+        const field: AuditField = isRadius ? "radius" : prop === "itemSpacing" ? "gap" : "padding";
+        const candidates = (await tokensInSelection(modeSelection)).spacing
+            .filter(t => allowsField(t, field))
+            .filter(t => (pickTokenMode(t, modeSelection)?.value ?? t.value) === value);
+        if (candidates.length === 0) return;
+
+        const token = pickSingleCandidate(candidates, c => isRadius ? isRadiusName(c) : !isRadiusName(c));
+        if (!token) {
+            skipped.push({
+                nodeId: node.id, nodeName: node.name, category: "spacing", label, value: `${value}px`,
+                reason: `Mais de um token com este valor (${candidates.map(c => c.name).join(", ")})`
+            });
+            return;
+        }
+
+        changes.push({
+            nodeId: node.id, nodeName: node.name, category: "spacing", property: prop, label,
+            value: `${value}px`, tokenId: token.styleId, tokenName: token.name, tokenType: "VARIABLE",
+            inInstance: await createsInstanceOverride(node, prop === "cornerRadius" ? spacingTypeProps("Border Radius") : [prop])
+        });
+    }
+
+    async function checkPaints(node: SceneNode, paints: readonly Paint[], isStroke: boolean) {
+        for (let i = 0; i < paints.length; i++) {
+            const paint = paints[i];
+            if (paint.type !== "SOLID" || paint.visible === false) continue;
+            if (await hasValidColorToken(node, paint, isStroke)) continue;
+
+            const hex = rgbToHex(paint.color);
+            const label = isStroke ? "Stroke" : "Fill";
+            const candidates = await colorCandidatesFor(hex, getAuditModeSelection(node), getPaintField(node, isStroke));
+            if (candidates.length === 0) continue;
+
+            // Variáveis são vinculadas no paint exato; estilos substituem a pilha inteira
+            const variables = candidates.filter(c => c.type === "VARIABLE");
+            const token = pickSingleCandidate(variables.length > 0 ? variables : candidates);
+            if (!token) {
+                skipped.push({
+                    nodeId: node.id, nodeName: node.name, category: "color", label, value: hex,
+                    reason: `Mais de um token com este valor (${candidates.map(c => c.name).join(", ")})`
+                });
+                continue;
+            }
+
+            if (token.type === "STYLE" && paints.length > 1) {
+                skipped.push({
+                    nodeId: node.id, nodeName: node.name, category: "color", label, value: hex,
+                    reason: "Estilo de cor substituiria as outras camadas de pintura"
+                });
+                continue;
+            }
+
+            changes.push({
+                nodeId: node.id, nodeName: node.name, category: "color",
+                property: isStroke ? "strokes" : "fills", label, paintIndex: i,
+                value: hex, tokenId: token.styleId, tokenName: token.name, tokenType: token.type,
+                inInstance: await createsInstanceOverride(node, isStroke ? ["strokes", "strokeStyleId"] : ["fills", "fillStyleId"])
+            });
+        }
+    }
+
+    async function checkText(node: TextNode) {
+        if (typeof node.textStyleId === "string" && node.textStyleId !== "") return;
+        if (node.characters.length === 0) return;
+
+        if (node.fontName === figma.mixed || node.fontSize === figma.mixed || node.lineHeight === figma.mixed) {
+            skipped.push({
+                nodeId: node.id, nodeName: node.name, category: "typography", label: "Texto",
+                value: "Mixed", reason: "Texto com estilos mistos"
+            });
+            return;
+        }
+
+        const value = `${node.fontName.family} ${node.fontName.style} ${node.fontSize}px`;
+        const key = `${node.fontName.family}|${node.fontName.style}|${node.fontSize}|${lineHeightKey(node.lineHeight)}`;
+        const candidates = textByKey.get(key);
+        if (!candidates || candidates.length === 0) return;
+
+        const token = pickSingleCandidate(candidates);
+        if (!token) {
+            skipped.push({
+                nodeId: node.id, nodeName: node.name, category: "typography", label: "Texto", value,
+                reason: `Mais de um estilo com estes valores (${candidates.map(c => c.name).join(", ")})`
+            });
+            return;
+        }
+
+        changes.push({
+            nodeId: node.id, nodeName: node.name, category: "typography", property: "textStyleId",
+            label: "Texto", value, tokenId: token.styleId, tokenName: token.name, tokenType: "STYLE",
+            inInstance: await createsInstanceOverride(node, TEXT_OVERRIDE_FIELDS)
+        });
+    }
+
+    async function checkNode(node: SceneNode): Promise<void> {
+        if ("fills" in node && Array.isArray(node.fills)) {
+            await checkPaints(node, node.fills, false);
+        }
+        if ("strokes" in node && Array.isArray(node.strokes)) {
+            await checkPaints(node, node.strokes, true);
+        }
+
+        if (node.type === "TEXT") {
+            await checkText(node);
+        }
+
+        if ("layoutMode" in node && node.layoutMode !== "NONE") {
+            for (const field of SPACING_FIELDS) {
+                await checkSpacing(node, field.prop, field.label, (node as any)[field.prop], false);
+            }
+        }
+
+        if ("cornerRadius" in node) {
+            const n = node as any;
+            if (n.cornerRadius !== figma.mixed) {
+                const bound = n.boundVariables ?? {};
+                const anyCornerBound = RADIUS_FIELDS.some(f => bound[f.prop]);
+                if (!anyCornerBound) await checkSpacing(node, "cornerRadius", "Border Radius", n.cornerRadius, true);
+            } else {
+                for (const field of RADIUS_FIELDS) {
+                    await checkSpacing(node, field.prop, field.label, n[field.prop], true);
+                }
+            }
+        }
+    }
+
+    async function walk(node: SceneNode): Promise<void> {
+        if (!showHiddenElements && !node.visible) return;
+
+        // Elementos ignorados de propósito ficam fora da correção automática
+        const suppressions = readNodeSuppressions(node);
+        if (suppressions?.subtree) return;
+        if (!suppressions?.node) await checkNode(node);
+
+        if ("children" in node) {
+            for (const c of node.children) {
+                if (isSceneNode(c)) await walk(c);
+            }
+        }
+    }
+
+    for (const root of roots) {
+        await walk(root);
+    }
+
+    return { changes, skipped };
+}
+
+// 🔥 Aplica uma alteração do plano; lança erro se não for possível
+async function applyAutoFixChange(change: AutoFixChange): Promise<void> {
+    const node = await figma.getNodeByIdAsync(change.nodeId);
+    if (!node || !isSceneNode(node)) throw new Error("Elemento não encontrado");
+
+    if (change.category === "color") {
+        const isStroke = change.property === "strokes";
+
+        if (change.tokenType === "VARIABLE") {
+            const variable = await getTokenVariable(change.tokenId);
+            if (!variable) throw new Error("Variável não encontrada");
+
+            bindPaintVariable(node, isStroke, change.paintIndex ?? 0, variable);
+        } else if (isStroke && "setStrokeStyleIdAsync" in node) {
+            await node.setStrokeStyleIdAsync(change.tokenId);
+        } else if (!isStroke && "setFillStyleIdAsync" in node) {
+            await node.setFillStyleIdAsync(change.tokenId);
+        }
+        return;
+    }
+
+    if (change.category === "typography") {
+        if (node.type !== "TEXT") throw new Error("Elemento não é texto");
+        const style = await figma.getStyleByIdAsync(change.tokenId);
+        if (!style || style.type !== "TEXT") throw new Error("Estilo não encontrado");
+        await figma.loadFontAsync((style as TextStyle).fontName);
+        await node.setTextStyleIdAsync(change.tokenId);
+        return;
+    }
+
+    const variable = await getTokenVariable(change.tokenId);
+    if (!variable) throw new Error("Variável não encontrada");
+    if (!("setBoundVariable" in node)) throw new Error("Elemento não aceita variáveis");
+
+    if (change.property === "cornerRadius") {
+        for (const field of RADIUS_FIELDS) {
+            (node as any).setBoundVariable(field.prop, variable);
+        }
+    } else {
+        (node as any).setBoundVariable(change.property as VariableBindableNodeField, variable);
+    }
+}
+
+
+
+/* ---------- JOURNAL ---------- */
+
+// Chaves de pluginData usadas para persistir o histórico
+const JOURNAL_KEY = "tokenJournal";
+const ORIGINAL_STATE_KEY = "originalState";
+const JOURNAL_MAX_ENTRIES = 300;
+
+type JournalCategory = "color" | "typography" | "spacing" | "effect";
+
+// Valores de um node relevantes para uma aplicação/remoção (serializável em JSON)
+interface NodeSnapshot {
+    textRange?: TextRange;
+    fillStyleId?: string;
+    strokeStyleId?: string;
+    fills?: Paint[];
+    strokes?: Paint[];
+    textStyleId?: string;
+    fontName?: FontName;
+    fontSize?: number;
+    lineHeight?: LineHeight;
+    letterSpacing?: LetterSpacing;
+    textCase?: TextCase;
+    textDecoration?: TextDecoration;
+    paragraphSpacing?: number;
+    paragraphIndent?: number;
+    spacing?: { [prop: string]: { value: number; variableId: string | null } };
+    effectStyleId?: string;
+    effects?: Effect[];
+}
+
+interface JournalEntry {
+    id: string;
+    sessionId: string;
+    timestamp: number;
+    user: string;
+    action: "apply" | "remove" | "revert";
+    category: JournalCategory;
+    nodeId: string;
+    nodeName: string;
+    props: string[];
+    tokenId: string | null;
+    tokenName: string | null;
+    before: NodeSnapshot;
+    after: NodeSnapshot;
+    beforeLabel: string;
+    afterLabel: string;
+    reverted?: boolean;
+}
+
+// Nome do usuário atual (requer a permissão "currentuser")
+function getCurrentUserName(): string {
+    try {
+        return figma.currentUser?.name ?? "Desconhecido";
+    } catch (e) {
+        return "Desconhecido";
+    }
+}
+
+// Converte o tipo de espaçamento exibido na UI para as propriedades do node
+function spacingTypeToProps(type: string): string[] {
+    if (type === "Border Radius") {
+        return RADIUS_FIELDS.map(f => f.prop);
+    }
+    const field = SPACING_FIELDS.concat(RADIUS_FIELDS).find(f => f.label === type);
+    return field ? [field.prop] : [];
+}
+
+// 🔥 Captura os valores atuais das propriedades indicadas
+function snapshotNode(node: SceneNode, category: JournalCategory, props: string[], range?: TextRange): NodeSnapshot {
+    // Trecho de texto misto: só o intervalo importa
+    if (category === "typography" && node.type === "TEXT" && range) {
+        return snapshotTextRange(node, range);
+    }
+
+    const snapshot: NodeSnapshot = {};
+
+    if (category === "color") {
+        if (props.includes("fills") && "fills" in node && Array.isArray(node.fills)) {
+            snapshot.fills = JSON.parse(JSON.stringify(node.fills));
+            snapshot.fillStyleId = typeof node.fillStyleId === "string" ? node.fillStyleId : "";
+        }
+        if (props.includes("strokes") && "strokes" in node && Array.isArray(node.strokes)) {
+            snapshot.strokes = JSON.parse(JSON.stringify(node.strokes));
+            snapshot.strokeStyleId = typeof node.strokeStyleId === "string" ? node.strokeStyleId : "";
+        }
+    }
+
+    if (category === "typography" && node.type === "TEXT") {
+        snapshot.textStyleId = typeof node.textStyleId === "string" ? node.textStyleId : "";
+        if (node.fontName !== figma.mixed) snapshot.fontName = node.fontName;
+        if (node.fontSize !== figma.mixed) snapshot.fontSize = node.fontSize;
+        if (node.lineHeight !== figma.mixed) snapshot.lineHeight = node.lineHeight;
+        if (node.letterSpacing !== figma.mixed) snapshot.letterSpacing = node.letterSpacing;
+        if (node.textCase !== figma.mixed) snapshot.textCase = node.textCase;
+        if (node.textDecoration !== figma.mixed) snapshot.textDecoration = node.textDecoration;
+        snapshot.paragraphSpacing = node.paragraphSpacing;
+        snapshot.paragraphIndent = node.paragraphIndent;
+    }
+
+    if (category === "spacing") {
+        snapshot.spacing = {};
+        const bound = (node as any).boundVariables ?? {};
+        for (const prop of props) {
+            const value = (node as any)[prop];
+            if (typeof value !== "number") continue;
+            snapshot.spacing[prop] = { value, variableId: bound[prop]?.id ?? null };
+        }
+    }
+
+    if (category === "effect" && "effects" in node) {
+        snapshot.effects = JSON.parse(JSON.stringify(node.effects));
+        snapshot.effectStyleId = typeof node.effectStyleId === "string" ? node.effectStyleId : "";
+    }
+
+    return snapshot;
+}
+
+// Texto curto que descreve um snapshot no painel de histórico
+function describeSnapshot(snapshot: NodeSnapshot): string {
+    const paints = snapshot.fills ?? snapshot.strokes;
+    if (paints) {
+        const styleId = snapshot.fills ? snapshot.fillStyleId : snapshot.strokeStyleId;
+        const solid = paints.find(p => p.type === "SOLID") as SolidPaint | undefined;
+        const base = solid ? rgbToHex(solid.color) : (paints.length > 0 ? "Gradiente" : "Sem pintura");
+        const tokenized = !!styleId || paints.some(p =>
+            (p.type === "SOLID" && p.boundVariables?.color) ||
+            (isGradientPaint(p) && p.gradientStops.some(stop => stop.boundVariables?.color))
+        );
+        return tokenized ? `${base} (token)` : base;
+    }
+
+    if (snapshot.effects) {
+        const base = describeEffectStack(getAuditableEffects(snapshot.effects));
+        return snapshot.effectStyleId ? `${base} (estilo)` : base;
+    }
+
+    if (snapshot.textStyleId !== undefined) {
+        const font = snapshot.fontName
+            ? `${snapshot.fontName.family} ${snapshot.fontName.style} ${snapshot.fontSize ?? ""}px`
+            : "Mixed";
+        const base = snapshot.textRange ? `${font} [${snapshot.textRange.start}–${snapshot.textRange.end}]` : font;
+        return snapshot.textStyleId ? `${base} (estilo)` : base;
+    }
+
+    if (snapshot.spacing) {
+        const values = Object.values(snapshot.spacing);
+        const unique = Array.from(new Set(values.map(v => v.value)));
+        const base = unique.map(v => `${parseFloat(v.toFixed(2))}px`).join(" / ");
+        return values.some(v => v.variableId) ? `${base} (token)` : base;
+    }
+
+    return "";
+}
+
+// 🔥 Restaura um snapshot no node
+async function restoreSnapshot(node: SceneNode, snapshot: NodeSnapshot): Promise<void> {
+    if (snapshot.fills !== undefined && "fills" in node) {
+        if (snapshot.fillStyleId && "setFillStyleIdAsync" in node) {
+            await node.setFillStyleIdAsync(snapshot.fillStyleId);
+        } else {
+            node.fills = snapshot.fills;
+        }
+    }
+
+    if (snapshot.strokes !== undefined && "strokes" in node) {
+        if (snapshot.strokeStyleId && "setStrokeStyleIdAsync" in node) {
+            await node.setStrokeStyleIdAsync(snapshot.strokeStyleId);
+        } else {
+            node.strokes = snapshot.strokes;
+        }
+    }
+
+    if (snapshot.effects !== undefined && "effects" in node) {
+        if (snapshot.effectStyleId) {
+            await node.setEffectStyleIdAsync(snapshot.effectStyleId);
+        } else {
+            await node.setEffectStyleIdAsync("");
+            node.effects = snapshot.effects;
+        }
+    }
+
+    if (snapshot.textRange && node.type === "TEXT") {
+        await restoreTextRange(node, snapshot);
+    } else if (snapshot.textStyleId !== undefined && node.type === "TEXT") {
+        if (snapshot.textStyleId) {
+            const style = await figma.getStyleByIdAsync(snapshot.textStyleId);
+            if (style && style.type === "TEXT") {
+                await figma.loadFontAsync((style as TextStyle).fontName);
+                await node.setTextStyleIdAsync(snapshot.textStyleId);
+                // Sobrescritas locais que existiam no snapshot voltam também
+                await applyTextOverrides(node, snapshot, style as TextStyle);
+            }
+        } else {
+            if (node.fontName !== figma.mixed) {
+                await figma.loadFontAsync(node.fontName);
+            }
+            await node.setTextStyleIdAsync("");
+
+            if (snapshot.fontName) {
+                await figma.loadFontAsync(snapshot.fontName);
+                node.fontName = snapshot.fontName;
+            }
+            if (snapshot.fontSize !== undefined) node.fontSize = snapshot.fontSize;
+            if (snapshot.lineHeight !== undefined) node.lineHeight = snapshot.lineHeight;
+            if (snapshot.letterSpacing !== undefined) node.letterSpacing = snapshot.letterSpacing;
+            if (snapshot.textCase !== undefined) node.textCase = snapshot.textCase;
+            if (snapshot.textDecoration !== undefined) node.textDecoration = snapshot.textDecoration;
+            if (snapshot.paragraphSpacing !== undefined) node.paragraphSpacing = snapshot.paragraphSpacing;
+            if (snapshot.paragraphIndent !== undefined) node.paragraphIndent = snapshot.paragraphIndent;
+        }
+    }
+
+    if (snapshot.spacing && "setBoundVariable" in node) {
+        for (const prop of Object.keys(snapshot.spacing)) {
+            const { value, variableId } = snapshot.spacing[prop];
+            const variable = variableId ? await figma.variables.getVariableByIdAsync(variableId).catch(() => null) : null;
+            if (variable) {
+                (node as any).setBoundVariable(prop, variable);
+            } else {
+                (node as any).setBoundVariable(prop, null);
+                (node as any)[prop] = value;
+            }
+        }
+    }
+}
+
+function readJournal(): JournalEntry[] {
+    try {
+        const raw = figma.root.getPluginData(JOURNAL_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (e) {
+        console.error("❌ Histórico corrompido, reiniciando:", e);
+        return [];
+    }
+}
+
+function writeJournal(entries: JournalEntry[]): void {
+    figma.root.setPluginData(JOURNAL_KEY, JSON.stringify(entries.slice(-JOURNAL_MAX_ENTRIES)));
+}
+
+// 🔥 Cria uma entrada do histórico capturando o estado "depois" do node
+function createJournalEntry(
+    node: SceneNode,
+    action: "apply" | "remove" | "revert",
+    category: JournalCategory,
+    props: string[],
+    token: { id: string | null; name: string | null },
+    before: NodeSnapshot
+): JournalEntry {
+    const after = snapshotNode(node, category, props, before.textRange);
+    return {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        sessionId: journalSessionId,
+        timestamp: Date.now(),
+        user: getCurrentUserName(),
+        action,
+        category,
+        nodeId: node.id,
+        nodeName: node.name,
+        props,
+        tokenId: token.id,
+        tokenName: token.name,
+        before,
+        after,
+        beforeLabel: describeSnapshot(before),
+        afterLabel: describeSnapshot(after)
+    };
+}
+
+function appendJournalEntries(entries: JournalEntry[]): void {
+    if (entries.length === 0) return;
+    writeJournal(readJournal().concat(entries));
+}
+
+// 🔥 Persiste o estado original no próprio node para sobreviver ao fechamento do plugin
+function persistOriginalState(node: BaseNode, state: OriginalNodeState): void {
+    const serializable: { [key: string]: unknown } = {};
+    for (const [key, value] of Object.entries(state)) {
+        if (typeof value === "symbol") {
+            // figma.mixed: estilos voltam a "" e as demais propriedades são ignoradas
+            if (key.endsWith("StyleId")) serializable[key] = "";
+            continue;
+        }
+        serializable[key] = value;
+    }
+    node.setPluginData(ORIGINAL_STATE_KEY, JSON.stringify(serializable));
+}
+
+// Estado original em memória ou, após reiniciar o plugin, salvo no node
+function getOriginalState(node: BaseNode): OriginalNodeState | undefined {
+    const inMemory = originalNodeStates.get(node.id);
+    if (inMemory) return inMemory;
+
+    try {
+        const raw = node.getPluginData(ORIGINAL_STATE_KEY);
+        return raw ? JSON.parse(raw) as OriginalNodeState : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+// 🔥 Reverte entradas do histórico (mais recentes primeiro)
+async function revertJournalEntries(entryIds: string[]): Promise<{ reverted: number; failed: number }> {
+    const journal = readJournal();
+    const targets = journal
+        .filter(e => entryIds.includes(e.id) && !e.reverted && e.action !== "revert")
+        .sort((a, b) => b.timestamp - a.timestamp);
+
+    const revertEntries: JournalEntry[] = [];
+    let failed = 0;
+
+    for (const entry of targets) {
+        try {
+            const node = await figma.getNodeByIdAsync(entry.nodeId);
+            if (!node || !isSceneNode(node)) throw new Error("Elemento não encontrado");
+
+            const before = snapshotNode(node, entry.category, entry.props, entry.before.textRange);
+            await restoreSnapshot(node, entry.before);
+            entry.reverted = true;
+            revertEntries.push(createJournalEntry(
+                node, "revert", entry.category, entry.props, { id: entry.tokenId, name: entry.tokenName }, before
+            ));
+        } catch (err) {
+            console.error("❌ Erro ao reverter entrada do histórico:", err);
+            failed++;
+        }
+    }
+
+    writeJournal(journal.concat(revertEntries));
+    return { reverted: revertEntries.length, failed };
+}
+
+/* ---------- REPORT ---------- */
+
+// 🔥 Schema do relatório exportado: mudanças incompatíveis no formato sobem a versão
+const REPORT_SCHEMA = "design-token-audit-report";
+const REPORT_VERSION = 3;
+
+// Sugestões de token por finding no relatório
+const REPORT_SUGGESTION_LIMIT = 3;
+
+const REPORT_CATEGORIES: AuditTab[] = ["colors", "typography", "spacing", "effects", "components"];
+
+const REPORT_CATEGORY_LABELS: { [tab in AuditTab]: string } = {
+    colors: "Cores",
+    typography: "Tipografia",
+    spacing: "Espaçamento",
+    effects: "Efeitos",
+    components: "Componentes"
+};
+
+type ReportFindingKind =
+    | "raw-color" | "raw-gradient" | "raw-text" | "text-override" | "unbound-spacing" | "raw-effect"
+    | "detached-instance" | "off-library-instance" | "outdated-instance";
+
+interface ReportSuggestion {
+    id: string;
+    name: string;
+    source?: string;
+    distance: number | null;
+    exact: boolean;
+    stopIndex?: number; // gradientes: melhor token de cada stop
+}
+
+// Finding ignorada (só aparece no relatório com "mostrar ignoradas" ligado)
+interface ReportSuppression {
+    level: SuppressionLevel;
+    reason: string;
+    expiresAt: string | null;
+}
+
+interface ReportFinding {
+    id: string; // estável entre execuções: categoria + node + propriedade
+    category: AuditTab;
+    kind: ReportFindingKind;
+    nodeId: string;
+    nodeName: string;
+    nodePath: string;
+    pageId: string;
+    pageName: string;
+    frameId: string;
+    frameName: string;
+    property: string;
+    value: string;
+    suggestions: ReportSuggestion[];
+    suppressed?: ReportSuppression;
+}
+
+interface AuditReport {
+    schema: string;
+    version: number;
+    generatedAt: string;
+    fileName: string;
+    scope: AnalysisScope;
+    summary: {
+        total: number; // findings ativas; as ignoradas ficam só em "suppressed"
+        suppressed: number;
+        byCategory: { [tab in AuditTab]: number };
+        byPage: { pageId: string; pageName: string; total: number }[];
+    };
+    findings: ReportFinding[];
+}
+
+// Caminho do node dentro da página ("Frame / Card / Título")
+function getNodePath(node: BaseNode): string {
+    const names: string[] = [];
+    let current: BaseNode | null = node;
+    while (current && current.type !== "PAGE" && current.type !== "DOCUMENT") {
+        names.unshift(current.name);
+        current = current.parent;
+    }
+    return names.join(" / ");
+}
+
+// Tokens ranqueados de cada categoria, como saem das coletas de sugestões
+type RankedReportToken =
+    | (ColorToken & { distance?: number | null; matchLevel?: "exact" | "near" | null })
+    | (TextToken & Partial<TextMatchResult>)
+    | (SpacingToken & { distance: number | null })
+    | (EffectToken & { distance?: number; matchLevel?: "exact" | "near" | null });
+
+function toReportSuggestion(token: RankedReportToken, stopIndex?: number): ReportSuggestion {
+    const matchLevel = "matchLevel" in token ? token.matchLevel : undefined;
+    const exact = "exact" in token ? token.exact : undefined;
+    return {
+        id: token.styleId ?? "",
+        name: token.name,
+        source: "source" in token ? token.source : undefined,
+        distance: typeof token.distance === "number" ? parseFloat(token.distance.toFixed(2)) : null,
+        exact: matchLevel === "exact" || exact === true || token.distance === 0,
+        stopIndex
+    };
+}
+
+function describeTextFindingValue(style: CustomTextStyle): string {
+    const parts = [`${style.fontFamily} ${style.fontStyle}`];
+    if (typeof style.fontSize === "number") parts.push(`${formatTextNumber(style.fontSize)}px`);
+    if (style.lineHeight && typeof style.lineHeight === "object") parts.push(`LH ${formatLineHeight(style.lineHeight)}`);
+    if (style.letterSpacing && typeof style.letterSpacing === "object") parts.push(`LS ${formatLetterSpacing(style.letterSpacing)}`);
+    return parts.join(" · ");
+}
+
+// 🔥 Converte as findings das quatro varreduras no formato do relatório
+// (sem sugestões para o baseline, que só precisa identificar e descrever cada finding)
+async function collectReportFindings(all: AllScanResults, includeSuggestions = true): Promise<ReportFinding[]> {
+    const { colors, typography, spacing, effects, components } = all;
+
+    const nodeIds = [colors, typography.findings, typography.overrides, spacing, effects, components]
+        .reduce<string[]>((ids, list) => ids.concat(list.map(f => f.nodeId)), []);
+    const uniqueIds = Array.from(new Set(nodeIds));
+    const nodes = await Promise.all(uniqueIds.map(id => figma.getNodeByIdAsync(id).catch(() => null)));
+    const nodeById = new Map(uniqueIds.map((id, i) => [id, nodes[i]]));
+
+    // Sugestões são calculadas uma vez por valor, não por node
+    const suggestionCache = new Map<string, ReportSuggestion[]>();
+    async function suggest(key: string, compute: () => Promise<ReportSuggestion[]>): Promise<ReportSuggestion[]> {
+        if (!includeSuggestions) return [];
+        if (!suggestionCache.has(key)) suggestionCache.set(key, await compute());
+        return suggestionCache.get(key)!;
+    }
+
+    const findings: ReportFinding[] = [];
+    function push(
+        category: AuditTab, kind: ReportFindingKind,
+        finding: { nodeId: string; findingId: string; location?: FindingLocation; suppressed?: SuppressionMark },
+        property: string, value: string, suggestions: ReportSuggestion[]
+    ): void {
+        const node = nodeById.get(finding.nodeId);
+        const location = finding.location;
+        findings.push({
+            id: finding.findingId,
+            category,
+            kind,
+            nodeId: finding.nodeId,
+            nodeName: node ? node.name : "",
+            nodePath: node ? getNodePath(node) : "",
+            pageId: location?.pageId ?? "",
+            pageName: location?.pageName ?? "",
+            frameId: location?.frameId ?? "",
+            frameName: location?.frameName ?? "",
+            property,
+            value,
+            suggestions,
+            suppressed: finding.suppressed ? {
+                level: finding.suppressed.level,
+                reason: finding.suppressed.reason,
+                expiresAt: finding.suppressed.expiresAt ? new Date(finding.suppressed.expiresAt).toISOString() : null
+            } : undefined
+        });
+    }
+
+    for (const f of colors) {
+        if (f.stops) {
+            const suggestions: ReportSuggestion[] = [];
+            for (const stop of f.stops) {
+                const best = await suggest(`color:${stop.hex}:${f.field}`, async () => {
+                    const { allowed } = partitionByScope(await collectAppliedColorTokens([], stop.hex), f.field);
+                    return allowed.slice(0, REPORT_SUGGESTION_LIMIT).map(t => toReportSuggestion(t));
+                });
+                if (best[0]) suggestions.push({ ...best[0], stopIndex: stop.stopIndex });
+            }
+            push("colors", "raw-gradient", f, FIELD_LABELS[f.field], f.label, suggestions);
+        } else {
+            const suggestions = await suggest(`color:${f.label}:${f.field}`, async () => {
+                const { allowed } = partitionByScope(await collectAppliedColorTokens([], f.label), f.field);
+                return allowed.slice(0, REPORT_SUGGESTION_LIMIT).map(t => toReportSuggestion(t));
+            });
+            push("colors", "raw-color", f, FIELD_LABELS[f.field], f.label, suggestions);
+        }
+    }
+
+    for (const f of typography.findings) {
+        const value = describeTextFindingValue(f.style);
+        const suggestions = await suggest(`text:${value}`, async () => {
+            const actual = f.range ? snapshotTextRange(f.node, f.range) : snapshotNode(f.node, "typography", ["textStyleId"]);
+            const ranked = await collectAppliedTextTokens([], actual);
+            return ranked.slice(0, REPORT_SUGGESTION_LIMIT).map(t => toReportSuggestion(t));
+        });
+        push("typography", "raw-text", f, f.range ? `Texto (${f.range.start}–${f.range.end})` : "Texto", value, suggestions);
+    }
+
+    for (const f of typography.overrides) {
+        const value = f.overrides.map(o => `${o.label}: ${o.styleValue} → ${o.actualValue}`).join("; ");
+        // A sugestão é voltar ao próprio estilo
+        push("typography", "text-override", f, `Sobrescrita de ${f.styleName}`, value, [
+            { id: f.styleId, name: f.styleName, distance: null, exact: true }
+        ]);
+    }
+
+    for (const f of spacing) {
+        const field = spacingTypeToField(f.type);
+        const suggestions = await suggest(`spacing:${f.value}:${field}`, async () => {
+            const { tokens } = await collectAppliedSpacingTokens(f.value, {}, field);
+            return tokens.slice(0, REPORT_SUGGESTION_LIMIT).map(t => toReportSuggestion({ ...t, distance: t.value === null ? null : Math.abs(t.value - f.value) }));
+        });
+        push("spacing", "unbound-spacing", f, f.type, `${f.value}${f.onScale ? "" : " (fora da escala)"}`, suggestions);
+    }
+
+    for (const f of effects) {
+        const key = effectStackKey(f.effects);
+        const suggestions = await suggest(`effects:${key}`, async () => {
+            const ranked = await collectAppliedEffectTokens(f.effects);
+            return ranked.slice(0, REPORT_SUGGESTION_LIMIT).map(t => toReportSuggestion(t));
+        });
+        push("effects", "raw-effect", f, "Efeitos", describeEffectStack(f.effects), suggestions);
+    }
+
+    for (const f of components) {
+        push("components", `${f.kind}-instance` as ReportFindingKind, f, COMPONENT_ISSUE_LABELS[f.kind], f.componentName, []);
+    }
+
+    return findings;
+}
+
+function buildAuditReport(findings: ReportFinding[]): AuditReport {
+    const byCategory = { colors: 0, typography: 0, spacing: 0, effects: 0, components: 0 };
+    const byPage = new Map<string, { pageId: string; pageName: string; total: number }>();
+
+    let suppressed = 0;
+    for (const finding of findings) {
+        if (finding.suppressed) {
+            suppressed++;
+            continue;
+        }
+        byCategory[finding.category]++;
+        if (!byPage.has(finding.pageId)) byPage.set(finding.pageId, { pageId: finding.pageId, pageName: finding.pageName, total: 0 });
+        byPage.get(finding.pageId)!.total++;
+    }
+
+    return {
+        schema: REPORT_SCHEMA,
+        version: REPORT_VERSION,
+        generatedAt: new Date().toISOString(),
+        fileName: figma.root.name,
+        scope: analysisScope,
+        summary: { total: findings.length - suppressed, suppressed, byCategory, byPage: Array.from(byPage.values()) },
+        findings
+    };
+}
+
+function describeReportSuppression(suppressed?: ReportSuppression): string {
+    if (!suppressed) return "";
+    return `${suppressed.reason}${suppressed.expiresAt ? ` (até ${suppressed.expiresAt.slice(0, 10)})` : ""}`;
+}
+
+function describeReportSuggestions(suggestions: ReportSuggestion[]): string {
+    return suggestions
+        .map(s => `${s.stopIndex !== undefined ? `stop ${s.stopIndex + 1}: ` : ""}${s.name}${s.exact ? " (exato)" : ""}`)
+        .join(" | ");
+}
+
+// Aspas no CSV só quando necessário (vírgula, aspas ou quebra de linha)
+function escapeCsv(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderReportCsv(report: AuditReport): string {
+    const header = ["id", "category", "kind", "page", "frame", "nodePath", "nodeId", "property", "value", "suggestions", "suppressed"];
+    const rows = report.findings.map(f => [
+        f.id, f.category, f.kind, f.pageName, f.frameName, f.nodePath, f.nodeId, f.property, f.value,
+        describeReportSuggestions(f.suggestions), describeReportSuppression(f.suppressed)
+    ]);
+    return [header, ...rows].map(row => row.map(escapeCsv).join(",")).join("\n");
+}
+
+// Barras verticais quebram a tabela em Markdown
+function escapeMarkdownCell(value: string): string {
+    return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function renderReportMarkdown(report: AuditReport): string {
+    const lines: string[] = [
+        `# Auditoria de tokens — ${report.fileName}`,
+        "",
+        `Gerado em ${report.generatedAt} · escopo: ${report.scope} · schema ${report.schema} v${report.version}`,
+        "",
+        "## Resumo",
+        "",
+        "| Categoria | Findings |",
+        "| --- | --- |",
+        ...REPORT_CATEGORIES.map(tab => `| ${REPORT_CATEGORY_LABELS[tab]} | ${report.summary.byCategory[tab]} |`),
+        `| **Total** | **${report.summary.total}** |`
+    ];
+
+    if (report.summary.suppressed > 0) lines.push(`| Ignoradas | ${report.summary.suppressed} |`);
+
+    if (report.summary.byPage.length > 1) {
+        lines.push("", "| Página | Findings |", "| --- | --- |");
+        for (const page of report.summary.byPage) lines.push(`| ${escapeMarkdownCell(page.pageName)} | ${page.total} |`);
+    }
+
+    for (const tab of REPORT_CATEGORIES) {
+        const findings = report.findings.filter(f => f.category === tab && !f.suppressed);
+        if (findings.length === 0) continue;
+
+        lines.push("", `## ${REPORT_CATEGORY_LABELS[tab]} (${findings.length})`, "",
+            "| Página | Caminho | Propriedade | Valor | Sugestões |", "| --- | --- | --- | --- | --- |");
+        for (const f of findings) {
+            lines.push(`| ${[f.pageName, f.nodePath, f.property, f.value, describeReportSuggestions(f.suggestions) || "—"].map(escapeMarkdownCell).join(" | ")} |`);
+        }
+    }
+
+    const suppressed = report.findings.filter(f => f.suppressed);
+    if (suppressed.length > 0) {
+        lines.push("", `## Ignoradas (${suppressed.length})`, "",
+            "| Categoria | Página | Caminho | Propriedade | Valor | Motivo |", "| --- | --- | --- | --- | --- | --- |");
+        for (const f of suppressed) {
+            lines.push(`| ${[REPORT_CATEGORY_LABELS[f.category], f.pageName, f.nodePath, f.property, f.value, describeReportSuppression(f.suppressed)].map(escapeMarkdownCell).join(" | ")} |`);
+        }
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+const REPORT_FORMATS: { [format: string]: { extension: string; mimeType: string; render: (report: AuditReport) => string } } = {
+    json: { extension: "json", mimeType: "application/json", render: report => JSON.stringify(report, null, 2) },
+    csv: { extension: "csv", mimeType: "text/csv", render: renderReportCsv },
+    markdown: { extension: "md", mimeType: "text/markdown", render: renderReportMarkdown }
+};
+
+/* ---------- BASELINE ---------- */
+
+// 🔥 Snapshot de uma auditoria (findings + cobertura) salvo no documento para comparar depois
+const BASELINE_KEY = "auditBaseline";
+
+interface BaselineFinding {
+    id: string;
+    category: AuditTab;
+    nodeId: string;
+    nodeName: string;
+    pageName: string;
+    property: string;
+    value: string;
+    suppressed?: boolean; // ignorada ao salvar: não conta como violação nem como corrigida
+}
+
+interface AuditBaseline {
+    createdAt: number;
+    scope: AnalysisScope;
+    target: string;
+    score: number | null;
+    counts: CoverageCounts;
+    findings: BaselineFinding[];
+}
+
+// Lista filtrada para mostrar só o que apareceu depois do baseline
+let showOnlyNewSinceBaseline = false;
+
+// undefined = ainda não lido do documento
+let cachedBaseline: AuditBaseline | null | undefined = undefined;
+let cachedBaselineIds: Set<string> | null = null;
+
+function activeBaselineIds(findings: BaselineFinding[]): Set<string> {
+    return new Set(findings.filter(f => !f.suppressed).map(f => f.id));
+}
+
+function readBaseline(): AuditBaseline | null {
+    if (cachedBaseline !== undefined) return cachedBaseline;
+
+    try {
+        const raw = figma.root.getPluginData(BASELINE_KEY);
+        cachedBaseline = raw ? JSON.parse(raw) : null;
+    } catch (e) {
+        console.error("❌ Baseline corrompido, ignorando:", e);
+        cachedBaseline = null;
+    }
+    cachedBaselineIds = cachedBaseline ? activeBaselineIds(cachedBaseline.findings) : null;
+    return cachedBaseline ?? null;
+}
+
+function writeBaseline(baseline: AuditBaseline | null): void {
+    figma.root.setPluginData(BASELINE_KEY, baseline ? JSON.stringify(baseline) : "");
+    cachedBaseline = baseline;
+    cachedBaselineIds = baseline ? activeBaselineIds(baseline.findings) : null;
+}
+
+// Marca o que é novo desde o baseline e, com o filtro ligado, deixa só essas findings
+function applyBaselineStatus<T extends { findingId: string; newSinceBaseline?: boolean }>(findings: T[]): T[] {
+    readBaseline();
+    const ids = cachedBaselineIds;
+
+    for (const finding of findings) {
+        finding.newSinceBaseline = ids ? !ids.has(finding.findingId) : undefined;
+    }
+
+    return ids && showOnlyNewSinceBaseline ? findings.filter(f => f.newSinceBaseline) : findings;
+}
+
+// Informação do baseline que acompanha os resultados das abas
+function describeBaselineFilter(): { createdAt: number; onlyNew: boolean } | null {
+    const baseline = readBaseline();
+    return baseline ? { createdAt: baseline.createdAt, onlyNew: showOnlyNewSinceBaseline } : null;
+}
+
+function toBaselineFinding(finding: ReportFinding): BaselineFinding {
+    return {
+        id: finding.id,
+        category: finding.category,
+        nodeId: finding.nodeId,
+        nodeName: finding.nodeName,
+        pageName: finding.pageName,
+        property: finding.property,
+        value: finding.value,
+        suppressed: finding.suppressed ? true : undefined
+    };
+}
+
+// 🔥 Compara a auditoria atual com o baseline: novas, corrigidas, ignoradas desde então e inalteradas.
+// Uma finding ignorada depois do baseline continua no documento: vai para "ignoradas", não para "corrigidas"
+function diffAgainstBaseline(baseline: AuditBaseline, current: BaselineFinding[]) {
+    const baselineIds = activeBaselineIds(baseline.findings);
+    const baselineSuppressedIds = new Set(baseline.findings.filter(f => f.suppressed).map(f => f.id));
+    const currentIds = new Set(current.map(f => f.id));
+    const active = current.filter(f => !f.suppressed);
+
+    return {
+        newFindings: active.filter(f => !baselineIds.has(f.id)),
+        fixedFindings: baseline.findings.filter(f => !f.suppressed && !currentIds.has(f.id)),
+        suppressedFindings: current.filter(f => f.suppressed && !baselineSuppressedIds.has(f.id)),
+        unchanged: active.filter(f => baselineIds.has(f.id)).length
+    };
+}
+
+/* ---------- CHANGE TRACKING ---------- */
+
+// 🔥 Com documentAccess "dynamic-page", "documentchange" exige carregar todas as páginas;
+// usamos "stylechange" (estilos locais) e "nodechange" da página atual, que bastam aqui
+
+// Roots da última análise completa e onde cada um fica (para localizar nodes alterados)
+let analyzedRoots = new Map<string, FindingLocation>();
+
+// Análises em andamento: mudanças chegando no meio de uma varredura esperam ela terminar
+let runningAnalyses = 0;
+
+const CHANGE_DEBOUNCE_MS = 400;
+
+// Acima disso, reanalisar tudo sai mais barato que atualizar node a node
+const MAX_INCREMENTAL_NODES = 500;
+
+// Propriedades de node que mudam o resultado de cada aba (e os tokens "usados na página")
+const TAB_CHANGE_PROPERTIES: { [tab in AuditTab]: NodeChangeProperty[] } = {
+    colors: ["fills", "strokes", "fillStyleId", "strokeStyleId"],
+    typography: [
+        "characters", "styledTextSegments", "fontName", "fontSize", "lineHeight", "letterSpacing",
+        "textCase", "textDecoration", "paragraphSpacing", "paragraphIndent", "textStyleId"
+    ],
+    spacing: [
+        "layoutMode", "itemSpacing", "paddingLeft", "paddingTop", "paddingRight", "paddingBottom",
+        "cornerRadius", "topLeftRadius", "topRightRadius", "bottomLeftRadius", "bottomRightRadius"
+    ],
+    effects: ["effects", "effectStyleId"],
+    components: ["type"] // Desvincular troca INSTANCE por FRAME
+};
+
+// Mudanças que afetam a subárvore inteira do node, não só ele
+const SUBTREE_CHANGE_PROPERTIES: NodeChangeProperty[] = ["visible", "parent"];
+
+const pendingChanges = {
+    nodeIds: new Set<string>(),   // reanalisa só o node
+    subtreeIds: new Set<string>(), // reanalisa o node e seus filhos
+    hasDeletions: false
+};
+let pendingChangesTimer: number | null = null;
+let trackedPage: PageNode | null = null;
+
+function rememberAnalyzedRoots(roots: SceneNode[]): void {
+    analyzedRoots = new Map(roots.map(root => [root.id, describeRootLocation(root)]));
+}
+
+function forgetFindings(tab: AuditTab): void {
+    delete lastFindings[tab];
+    if (tab === "typography") delete lastFindings.textOverrides;
+}
+
+function hasFindings(tab: AuditTab): boolean {
+    return lastFindings[tab] !== undefined;
+}
+
+// 🔥 Invalida só o cache de tokens da categoria afetada
+function invalidateTokenCache(tab: AuditTab): void {
+    if (tab === "colors") cachedColorTokens = null;
+    else if (tab === "typography") cachedTextTokens = null;
+    else if (tab === "spacing") cachedSpacingTokens = null;
+    else if (tab === "effects") cachedEffectTokens = null;
+}
+
+function styleTypeToTab(type: StyleType): AuditTab | null {
+    if (type === "PAINT") return "colors";
+    if (type === "TEXT") return "typography";
+    if (type === "EFFECT") return "effects";
+    return null;
+}
+
+// 🔥 Variáveis não têm evento de mudança: antes de sugerir tokens, compara uma assinatura
+// das variáveis locais e invalida cores/espaçamento se alguma foi criada, editada ou removida
+let localVariablesSignature: string | null = null;
+
+async function invalidateCachesIfVariablesChanged(): Promise<void> {
+    const variables = await figma.variables.getLocalVariablesAsync().catch(() => [] as Variable[]);
+    const signature = variables
+        .map(v => `${v.id}:${v.name}:${v.scopes.join(",")}:${JSON.stringify(v.valuesByMode)}`)
+        .join("|");
+
+    if (localVariablesSignature !== null && signature !== localVariablesSignature) {
+        invalidateTokenCache("colors");
+        invalidateTokenCache("spacing");
+    }
+    localVariablesSignature = signature;
+}
+
+// 🔥 Estilo criado, removido ou editado: limpa o cache da categoria e avisa a UI,
+// que atualiza as sugestões abertas (ou a lista, se o nome do estilo decide a validade)
+function handleStyleChanges(event: StyleChangeEvent): void {
+    const tabs = new Set<AuditTab>();
+
+    for (const change of event.styleChanges) {
+        // Estilo removido chega sem tipo: vale para todas as categorias com estilo
+        const affected: (AuditTab | null)[] = change.style
+            ? [styleTypeToTab(change.style.type)]
+            : ["colors", "typography", "effects"];
+
+        for (const tab of affected) {
+            if (tab) tabs.add(tab);
+        }
+    }
+
+    if (tabs.size === 0) return;
+
+    tabs.forEach(invalidateTokenCache);
+    figma.ui.postMessage({ type: "tokens-changed", tabs: Array.from(tabs) });
+}
+
+// 🔥 Acumula as mudanças de nodes; o processamento roda uma vez por rajada de edições
+function handleNodeChanges(event: NodeChangeEvent): void {
+    let relevant = false;
+
+    for (const change of event.nodeChanges) {
+        if (change.type === "CREATE" || change.type === "DELETE") {
+            // Node novo/removido pode trazer ou levar tokens usados na página
+            (Object.keys(TAB_CHANGE_PROPERTIES) as AuditTab[]).forEach(invalidateTokenCache);
+
+            if (change.type === "DELETE") {
+                pendingChanges.nodeIds.add(change.id);
+                pendingChanges.hasDeletions = true;
+            } else {
+                pendingChanges.subtreeIds.add(change.id);
+            }
+            relevant = true;
+            continue;
+        }
+
+        for (const tab of Object.keys(TAB_CHANGE_PROPERTIES) as AuditTab[]) {
+            if (change.properties.some(prop => TAB_CHANGE_PROPERTIES[tab].includes(prop))) invalidateTokenCache(tab);
+        }
+
+        if (change.properties.some(prop => SUBTREE_CHANGE_PROPERTIES.includes(prop))) {
+            pendingChanges.subtreeIds.add(change.id);
+            relevant = true;
+        } else if (change.properties.some(prop => TAB_CHANGE_PROPERTIES[currentTab].includes(prop))) {
+            pendingChanges.nodeIds.add(change.id);
+            relevant = true;
+        }
+    }
+
+    if (relevant) scheduleChangeFlush();
+}
+
+function scheduleChangeFlush(): void {
+    if (pendingChangesTimer !== null) clearTimeout(pendingChangesTimer);
+    pendingChangesTimer = setTimeout(() => {
+        pendingChangesTimer = null;
+        flushNodeChanges();
+    }, CHANGE_DEBOUNCE_MS);
+}
+
+// Root analisado que contém o node (e a supressão de subárvore herdada de um ancestral);
+// null se ele está fora do escopo ou oculto
+function locateInAnalyzedRoots(node: SceneNode): { location: FindingLocation; inherited?: SuppressionMark } | null {
+    let current: BaseNode | null = node;
+    let inherited: SuppressionMark | undefined;
+
+    while (current && current.type !== "PAGE" && current.type !== "DOCUMENT") {
+        const scene = current as SceneNode;
+        if (!showHiddenElements && !scene.visible) return null;
+        if (scene !== node && !inherited) inherited = readNodeSuppressions(scene)?.subtree;
+
+        const location = analyzedRoots.get(scene.id);
+        if (location) return { location, inherited };
+
+        // Página/documento: frame novo no primeiro nível passa a fazer parte do escopo
+        if (analysisScope !== "selection" && scene.parent?.type === "PAGE" &&
+            (scene.type === "FRAME" || scene.type === "COMPONENT" || scene.type === "INSTANCE" || scene.type === "SECTION")) {
+            const rootLocation = describeRootLocation(scene);
+            analyzedRoots.set(scene.id, rootLocation);
+            return { location: rootLocation, inherited };
+        }
+
+        current = current.parent;
+    }
+
+    return null;
+}
+
+function collectSubtreeIds(node: SceneNode, ids: Set<string>): void {
+    ids.add(node.id);
+    if ("children" in node) {
+        for (const c of node.children) collectSubtreeIds(c, ids);
+    }
+}
+
+// Algum ancestral já entra no update como subárvore inteira
+function hasAncestorIn(node: SceneNode, ids: Set<string>): boolean {
+    for (let p = node.parent; p && p.type !== "PAGE" && p.type !== "DOCUMENT"; p = p.parent) {
+        if (ids.has(p.id)) return true;
+    }
+    return false;
+}
+
+// Monta o update: nodes a varrer de novo e ids cujas findings antigas saem da lista
+async function buildFindingsUpdate(nodeIds: Set<string>, subtreeIds: Set<string>, hasDeletions: boolean): Promise<FindingsUpdate> {
+    const update: FindingsUpdate = { items: [], nodeIds: new Set([...nodeIds, ...subtreeIds]), hasDeletions };
+    const scanned = new Set<string>();
+
+    const addItems = (items: ScanItem[]) => {
+        for (const item of items) {
+            if (scanned.has(item.node.id)) continue;
+            scanned.add(item.node.id);
+            update.items.push(item);
+        }
+    };
+
+    for (const id of Array.from(update.nodeIds)) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (!node || !isSceneNode(node) || node.removed) continue;
+
+        // 🔥 Coberto pela subárvore de um ancestral (ex.: frame colado gera CREATE para cada filho)
+        if (hasAncestorIn(node, subtreeIds)) continue;
+
+        const located = locateInAnalyzedRoots(node);
+
+        if (subtreeIds.has(id)) {
+            // Filhos ocultos também saem da lista antiga, mesmo sem voltar na varredura
+            collectSubtreeIds(node, update.nodeIds);
+            if (located) addItems(collectScanItems([node], located.location, located.inherited));
+        } else if (located) {
+            addItems(collectScanItems([node], located.location, located.inherited, false));
+        }
+    }
+
+    return update;
+}
+
+// 🔥 Atualiza as findings da aba ativa só com os nodes alterados
+async function flushNodeChanges(): Promise<void> {
+    // Varredura em andamento: tenta de novo quando ela terminar
+    if (runningAnalyses > 0) {
+        scheduleChangeFlush();
+        return;
+    }
+
+    const { nodeIds, subtreeIds, hasDeletions } = pendingChanges;
+    pendingChanges.nodeIds = new Set();
+    pendingChanges.subtreeIds = new Set();
+    pendingChanges.hasDeletions = false;
+
+    // Nada analisado ainda (ou a última análise foi cancelada): não há o que atualizar
+    if (!hasFindings(currentTab) || analyzedRoots.size === 0) return;
+
+    const update = await buildFindingsUpdate(nodeIds, subtreeIds, hasDeletions);
+
+    if (update.nodeIds.size > MAX_INCREMENTAL_NODES) {
+        const roots = await resolveAnalysisRoots();
+        if (roots.length > 0) await analyzeCurrentTab(roots);
+        return;
+    }
+
+    await analyzeCurrentTab([], update);
+}
+
+// 🔥 "nodechange" é por página: acompanha sempre a página atual
+function trackCurrentPage(): void {
+    if (trackedPage === figma.currentPage) return;
+    if (trackedPage) trackedPage.off("nodechange", handleNodeChanges);
+
+    trackedPage = figma.currentPage;
+    trackedPage.on("nodechange", handleNodeChanges);
+}
+
+/* ---------- EVENTS ---------- */
+
+figma.on("stylechange", handleStyleChanges);
+trackCurrentPage();
+
+figma.on("selectionchange", async () => {
+    console.log("SELECTION CHANGED");
+
+    if (ignoringSelectionChange) {
+        console.log("IGNORE CHANGED");
+        return;
+    }
+
+    // Página/documento: a seleção só navega, não muda o que é auditado
+    if (analysisScope !== "selection") return;
+
+    const selection = figma.currentPage.selection;
+
+    if (selection.length === 0) {
+        rootFrameIds = [];
+        rootFrameId = null;
+        figma.ui.postMessage({ type: "empty", clearAll: true });
+        return;
+    }
+
+    const containers = getValidFramesFromSelection();
+
+    if (containers.length === 0) return;
+
+    const newFrameIds = containers.map(c => c.id);
+    const frameChanged = JSON.stringify(newFrameIds) !== JSON.stringify(rootFrameIds);
+
+    rootFrameIds = newFrameIds;
+    rootFrameId = newFrameIds[0];
+
+    figma.ui.postMessage({ type: "selection-changed" });
+
+    if (frameChanged) {
+        figma.ui.postMessage({ type: "frame-changed" });
+    }
+
+    await analyzeCurrentTab(containers);
+});
+
+// 🔥 No escopo "página atual", trocar de página audita a nova página
+figma.on("currentpagechange", async () => {
+    trackCurrentPage();
+    if (analysisScope !== "page" || ignoringSelectionChange) return;
+    figma.ui.postMessage({ type: "frame-changed" });
+    await analyzeCurrentTab(getTopLevelRoots(figma.currentPage));
+});
+
+
+figma.ui.onmessage = async (msg) => {
+    console.log("📩 mensagem recebida:", msg);
+
+    // 🔙 Voltar para lista
+    if (msg.type === "back-to-list") {
+        console.log("🔙 Voltando para lista...");
+
+        // Página/documento: não há seleção a restaurar, só a análise do escopo
+        const scopeRoots = await resolveScopeRoots();
+        if (scopeRoots) {
+            initialSelectionIds = null;
+            nodesWithAppliedToken.clear();
+            originalNodeStates.clear();
+            await analyzeCurrentTab(scopeRoots);
+            return;
+        }
+
+        if (initialSelectionIds && initialSelectionIds.length > 0) {
+            console.log("📌 Restaurando seleção:", initialSelectionIds);
+
+            const nodes: SceneNode[] = [];
+            for (const id of initialSelectionIds) {
+                const node = await figma.getNodeByIdAsync(id);
+                if (node && isSceneNode(node)) {
+                    nodes.push(node);
+                }
+            }
+
+            if (nodes.length > 0) {
+                ignoringSelectionChange = true;
+
+                figma.currentPage.selection = nodes;
+                figma.viewport.scrollAndZoomIntoView(nodes);
+
+                console.log("✅ Seleção restaurada:", nodes.map(n => n.name));
+
+                await new Promise(resolve => setTimeout(resolve, 100));
+                ignoringSelectionChange = false;
+
+                const validNodes = nodes.filter(
+                    (n): n is FrameNode | ComponentNode | InstanceNode =>
+                        n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
+                );
+
+                if (validNodes.length > 0) {
+                    console.log("🔄 Re-analisando frames...");
+                    await analyzeCurrentTab(validNodes);
+                } else if (rootFrameIds.length > 0) {
+                    const rootNodes: (FrameNode | ComponentNode | InstanceNode)[] = [];
+                    for (const id of rootFrameIds) {
+                        const n = await figma.getNodeByIdAsync(id);
+                        if (n && (n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE")) {
+                            rootNodes.push(n as FrameNode | ComponentNode | InstanceNode);
+                        }
+                    }
+                    if (rootNodes.length > 0) {
+                        await analyzeCurrentTab(rootNodes);
+                    }
+                }
+            }
+        }
+
+        initialSelectionIds = null;
+        nodesWithAppliedToken.clear();
+        originalNodeStates.clear();
+
+        return;
+    }
+
+    // 🔒 Salvar seleção inicial
+    if (msg.type === "save-initial-selection") {
+        if (!initialSelectionIds) {
+            initialSelectionIds = figma.currentPage.selection.map(n => n.id);
+            console.log("📌 Seleção inicial salva (save):", initialSelectionIds);
+        }
+        return;
+    }
+
+    // 🔥 Salvar estado original dos nodes
+    if (msg.type === "save-original-state") {
+        const nodeIds: string[] = msg.nodeIds || [];
+        console.log("📌 Salvando estado original de", nodeIds.length, "nodes");
+
+        for (const nodeId of nodeIds) {
+            const node = await figma.getNodeByIdAsync(nodeId);
+            if (!node) continue;
+
+            const state: OriginalNodeState = {};
+
+            if (isSceneNode(node)) {
+                if ("fillStyleId" in node) state.fillStyleId = node.fillStyleId;
+                if ("strokeStyleId" in node) state.strokeStyleId = node.strokeStyleId;
+                if ("fills" in node) state.fills = JSON.parse(JSON.stringify(node.fills));
+                if ("strokes" in node) state.strokes = JSON.parse(JSON.stringify(node.strokes));
+                if ("itemSpacing" in node) state.itemSpacing = node.itemSpacing;
+                if ("paddingTop" in node) state.paddingTop = node.paddingTop;
+                if ("paddingBottom" in node) state.paddingBottom = node.paddingBottom;
+                if ("paddingLeft" in node) state.paddingLeft = node.paddingLeft;
+                if ("paddingRight" in node) state.paddingRight = node.paddingRight;
+                if ("cornerRadius" in node) state.cornerRadius = node.cornerRadius;
+                if ("topLeftRadius" in node) state.topLeftRadius = node.topLeftRadius;
+                if ("topRightRadius" in node) state.topRightRadius = node.topRightRadius;
+                if ("bottomLeftRadius" in node) state.bottomLeftRadius = node.bottomLeftRadius;
+                if ("bottomRightRadius" in node) state.bottomRightRadius = node.bottomRightRadius;
+                if ("effectStyleId" in node) state.effectStyleId = node.effectStyleId;
+                if ("effects" in node) state.effects = JSON.parse(JSON.stringify(node.effects));
+            }
+
+            if (node.type === "TEXT") {
+                try {
+                    if (node.fontName !== figma.mixed) {
+                        await figma.loadFontAsync(node.fontName as FontName);
+                    }
+                    state.textStyleId = node.textStyleId;
+                    state.fontName = node.fontName;
+                    state.fontSize = node.fontSize;
+                    state.lineHeight = node.lineHeight;
+                    state.letterSpacing = node.letterSpacing;
+                    state.textCase = node.textCase;
+                    state.textDecoration = node.textDecoration;
+                    state.paragraphSpacing = node.paragraphSpacing;
+                    state.paragraphIndent = node.paragraphIndent;
+                    if (isMixedText(node)) {
+                        state.textSegments = node.getStyledTextSegments(STYLED_SEGMENT_FIELDS)
+                            .map(segment => snapshotTextRange(node, segment));
+                    }
+                } catch (e) {
+                    console.error("❌ Erro ao salvar estado de texto:", e);
+                }
+            }
+
+            originalNodeStates.set(nodeId, state);
+            persistOriginalState(node, state);
+        }
+        return;
+    }
+
+    if (msg.type === "enter-list-view") {
+        initialSelectionIds = figma.currentPage.selection.map(n => n.id);
+        console.log("📌 seleção inicial atualizada:", initialSelectionIds);
+
+        const containers = getValidFramesFromSelection();
+        if (containers.length > 0) {
+            rootFrameIds = containers.map(c => c.id);
+            rootFrameId = rootFrameIds[0];
+            console.log("📌 rootFrameIds atualizados:", rootFrameIds);
+        }
+    }
+
+    if (msg.type === "select-node") {
+        try {
+            const node = await figma.getNodeByIdAsync(msg.nodeId);
+            if (node && isSceneNode(node)) {
+                ignoringSelectionChange = true;
+                // No escopo do documento a finding pode estar em outra página
+                const page = getNodePage(node);
+                if (page && page !== figma.currentPage) await figma.setCurrentPageAsync(page);
+                figma.currentPage.selection = [node];
+                // Trecho de texto misto: destaca só os caracteres da finding
+                if (msg.range && node.type === "TEXT") {
+                    figma.currentPage.selectedTextRange = { node, start: msg.range.start, end: msg.range.end };
+                }
+                figma.viewport.scrollAndZoomIntoView([node]);
+                await new Promise(resolve => setTimeout(resolve, 50));
+                ignoringSelectionChange = false;
+            }
+        } catch (err) {
+            console.error("Erro ao buscar node:", err);
+            ignoringSelectionChange = false;
+        }
+    }
+
+    if (msg.type === "select-multiple-nodes") {
+        try {
+            ignoringSelectionChange = true;
+
+            const nodes = await Promise.all(
+                msg.nodeIds.map((id: string) => figma.getNodeByIdAsync(id))
+            );
+
+            const validNodes = nodes.filter((n): n is SceneNode => !!n && isSceneNode(n));
+
+            // Seleção é por página: fica com a página do primeiro node (troca se preciso)
+            const page = validNodes.length > 0 ? getNodePage(validNodes[0]) : null;
+            if (page && page !== figma.currentPage) await figma.setCurrentPageAsync(page);
+
+            const safeNodes = validNodes.filter(n => {
+                if (getNodePage(n) !== figma.currentPage) return false;
+                if (n.type === "TEXT") return n.characters.length > 0;
+                return true;
+            });
+
+            if (safeNodes.length) {
+                figma.currentPage.selection = safeNodes;
+                figma.viewport.scrollAndZoomIntoView(safeNodes);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, 50));
+            ignoringSelectionChange = false;
+        } catch (err) {
+            console.error("Erro ao selecionar nodes:", err);
+            ignoringSelectionChange = false;
+        }
+    }
+
+    if (msg.type === "get-suggested-tokens") {
+        try {
+            await invalidateCachesIfVariablesChanged();
+
+            let validNodes: (FrameNode | ComponentNode | InstanceNode)[] = figma.currentPage.selection.filter(
+                (n): n is FrameNode | ComponentNode | InstanceNode =>
+                    n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
+            );
+
+            if (validNodes.length === 0 && rootFrameIds.length > 0) {
+                for (const id of rootFrameIds) {
+                    const rootNode = await figma.getNodeByIdAsync(id);
+                    if (rootNode && (rootNode.type === "FRAME" || rootNode.type === "COMPONENT" || rootNode.type === "INSTANCE")) {
+                        validNodes.push(rootNode as FrameNode | ComponentNode | InstanceNode);
+                    }
+                }
+            }
+
+            // Página/documento sem seleção: os tokens vêm da página atual de qualquer forma
+            if (validNodes.length === 0 && analysisScope !== "selection") {
+                validNodes = getTopLevelRoots(figma.currentPage).filter(
+                    (n): n is FrameNode | ComponentNode | InstanceNode =>
+                        n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
+                );
+            }
+
+            if (validNodes.length > 0) {
+                // Node de referência para os modos de variável (explícito/herdado)
+                const modeNode = msg.nodeId ? await figma.getNodeByIdAsync(msg.nodeId) : null;
+                const modeSelection = getAuditModeSelection(modeNode);
+
+                // Campo da finding (fill, stroke, gap...) — filtra variáveis por escopo
+                const field: AuditField | undefined = msg.field;
+                const fieldLabel = field ? FIELD_LABELS[field] : null;
+
+                if (currentTab === "colors") {
+                    const rankedTokens = await collectAppliedColorTokens(validNodes, msg.hex, modeSelection);
+                    const { allowed, hidden } = partitionByScope(rankedTokens, field);
+                    // Biblioteca sem hex conhecido vai numa seção à parte, limitada
+                    const appliedTokens = allowed.filter(t => t.hex);
+                    const library = limitPendingLibraryTokens(allowed.filter(t => !t.hex));
+                    const modeOptions = await describeAuditModes(
+                        modeNode, appliedTokens.filter(t => t.collectionId).map(t => t.collectionId as string)
+                    );
+                    figma.ui.postMessage({ type: "result-suggested-tokens", tokens: appliedTokens, library, modeOptions, hidden, fieldLabel });
+                } else if (currentTab === "typography") {
+                    // Compara com o trecho (texto misto) ou com o node inteiro
+                    let currentStyle: NodeSnapshot | undefined = undefined;
+                    if (modeNode && modeNode.type === "TEXT" && modeNode.characters.length > 0) {
+                        const range: TextRange = msg.range || { start: 0, end: modeNode.characters.length };
+                        currentStyle = snapshotTextRange(modeNode, range);
+                    }
+                    const appliedTokens = await collectAppliedTextTokens(validNodes, currentStyle);
+                    figma.ui.postMessage({ type: "result-suggested-text-tokens", tokens: appliedTokens });
+                } else if (currentTab === "spacing") {
+                    const { tokens: appliedTokens, hidden, library } = await collectAppliedSpacingTokens(msg.value || 0, modeSelection, field);
+                    const modeOptions = await describeAuditModes(
+                        modeNode, appliedTokens.filter(t => t.collectionId).map(t => t.collectionId as string)
+                    );
+                    figma.ui.postMessage({ type: "result-suggested-spacing-tokens", tokens: appliedTokens, library, modeOptions, hidden, fieldLabel });
+                } else if (currentTab === "effects") {
+                    const appliedTokens = await collectAppliedEffectTokens(msg.effects || []);
+                    figma.ui.postMessage({ type: "result-suggested-effect-tokens", tokens: appliedTokens });
+                }
+            } else {
+                figma.ui.postMessage({ type: "result-suggested-tokens", tokens: [] });
+            }
+        } catch (err) {
+            console.error("Erro ao buscar tokens sugeridos:", err);
+            figma.ui.postMessage({ type: "result-suggested-tokens", tokens: [] });
+        }
+    }
+
+    // 🔥 Escolhe o modo da coleção contra o qual a auditoria compara (vazio = modo do node)
+    if (msg.type === "set-audit-mode") {
+        if (msg.modeId) {
+            auditModeOverrides[msg.collectionId] = msg.modeId;
+        } else {
+            delete auditModeOverrides[msg.collectionId];
+        }
+        // Aliases entre coleções dependem do modo escolhido
+        cachedColorTokens = null;
+        cachedSpacingTokens = null;
+        figma.ui.postMessage({ type: "audit-mode-updated", collectionId: msg.collectionId, modeId: msg.modeId || null });
+    }
+
+    if (msg.type === "apply-token-multiple") {
+        const styleId = msg.styleId;
+        const nodeIds: string[] = msg.nodeIds || [];
+        // Camada do paint stack de cada node (mesma ordem de nodeIds)
+        const paintIndexes: number[] = msg.paintIndexes || [];
+        const isStroke = msg.isStroke || false;
+        let lastDisplayName = styleId;
+        const journalEntries: JournalEntry[] = [];
+        const skippedFields: AuditField[] = [];
+        const variable = await getTokenVariable(styleId);
+
+        for (let k = 0; k < nodeIds.length; k++) {
+            const node = await figma.getNodeByIdAsync(nodeIds[k]);
+            if (!node || !isSceneNode(node)) continue;
+
+            const paintProp = isStroke ? "strokes" : "fills";
+            const before = snapshotNode(node, "color", [paintProp]);
+
+            // 🔥 Respeita o escopo da variável (ex.: cor só de texto não vai para borda)
+            const field = getPaintField(node, isStroke);
+            if (variable && variable.resolvedType === "COLOR" && !allowsField(variable, field)) {
+                skippedFields.push(field);
+                continue;
+            }
+
+            if (variable && variable.resolvedType === "COLOR") {
+                bindPaintVariable(node, isStroke, paintIndexes[k] ?? 0, variable);
+                lastDisplayName = removeTokenPrefix(variable.name);
+                figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: lastDisplayName, styleId: variable.id });
+            } else {
+                const style = await figma.getStyleByIdAsync(styleId);
+                if (!style || style.type !== "PAINT") continue;
+
+                if (isStroke && "setStrokeStyleIdAsync" in node) {
+                    await node.setStrokeStyleIdAsync(styleId);
+                } else if (!isStroke && "setFillStyleIdAsync" in node) {
+                    await node.setFillStyleIdAsync(styleId);
+                }
+
+                lastDisplayName = removeTokenPrefix(style.name);
+                figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: lastDisplayName, styleId: style.id });
+            }
+
+            journalEntries.push(createJournalEntry(node, "apply", "color", [paintProp], { id: styleId, name: lastDisplayName }, before));
+        }
+
+        appendJournalEntries(journalEntries);
+        if (variable && skippedFields.length > 0) {
+            figma.ui.postMessage({ type: "token-scope-warning", message: describeScopeSkip(variable, skippedFields) });
+        }
+        figma.ui.postMessage({ type: "token-applied-success", styleName: lastDisplayName, styleId });
+    }
+
+    if (msg.type === "apply-token") {
+        try {
+            const styleId = msg.styleId;
+            const isStroke = msg.isStroke;
+            const isText = msg.isText || false;
+            const nodeIds: string[] = msg.nodeIds || [msg.nodeId];
+            const paintIndexes: number[] = msg.paintIndexes || [msg.paintIndex ?? 0];
+            const nodes = await Promise.all(nodeIds.map(id => figma.getNodeByIdAsync(id)));
+            const paintIndexById = new Map(nodeIds.map((id, k) => [id, paintIndexes[k] ?? 0]));
+            const validNodes = nodes.filter((n): n is SceneNode => !!n && isSceneNode(n));
+
+            const variable = !isText ? await getTokenVariable(styleId) : null;
+            const category: JournalCategory = isText ? "typography" : "color";
+            const journalProps = isText ? ["textStyleId"] : [isStroke ? "strokes" : "fills"];
+            const journalEntries: JournalEntry[] = [];
+            const skippedFields: AuditField[] = [];
+
+            await Promise.all(validNodes.map(async (node) => {
+                const before = snapshotNode(node, category, journalProps);
+
+                const field = getPaintField(node, isStroke);
+                if (!isText && variable && variable.resolvedType === "COLOR" && !allowsField(variable, field)) {
+                    skippedFields.push(field);
+                    return;
+                }
+
+                if (isText && node.type === "TEXT") {
+                    const style = await figma.getStyleByIdAsync(styleId);
+                    if (style && style.type === "TEXT") {
+                        await figma.loadFontAsync(style.fontName as FontName);
+                        await node.setTextStyleIdAsync(styleId);
+                    }
+                } else if (variable && variable.resolvedType === "COLOR") {
+                    bindPaintVariable(node, isStroke, paintIndexById.get(node.id) ?? 0, variable);
+                } else {
+                    if (isStroke && "setStrokeStyleIdAsync" in node) {
+                        await node.setStrokeStyleIdAsync(styleId);
+                    } else if (!isStroke && "setFillStyleIdAsync" in node) {
+                        await node.setFillStyleIdAsync(styleId);
+                    }
+                }
+
+                const rawName = variable ? variable.name : (await figma.getStyleByIdAsync(styleId))?.name || styleId;
+                const displayName = removeTokenPrefix(rawName);
+                journalEntries.push(createJournalEntry(node, "apply", category, journalProps, { id: styleId, name: displayName }, before));
+                figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: displayName, styleId });
+            }));
+
+            appendJournalEntries(journalEntries);
+            if (variable && skippedFields.length > 0) {
+                figma.ui.postMessage({ type: "token-scope-warning", message: describeScopeSkip(variable, skippedFields) });
+            }
+
+            const rawName = variable ? variable.name : (await figma.getStyleByIdAsync(styleId))?.name || styleId;
+            figma.ui.postMessage({ type: "token-applied-success", styleName: removeTokenPrefix(rawName), styleId });
+
+        } catch (err) {
+            console.error("Erro ao aplicar token:", err);
+            figma.ui.postMessage({ type: "token-applied-error" });
+        }
     }
 
-    if (currentTab === "colors") {
-        await analyzeColors(containers);
-    } else if (currentTab === "typography") {
-        await analyzeTypography(containers);
-    } else {
-        await analyzeSpacing(containers);
+    if (msg.type === "apply-typography-token-multiple") {
+        console.log("📩 apply-typography-token-multiple recebido:", msg);
+
+        const styleId = msg.styleId;
+        const nodeIds: string[] = msg.nodeIds || [];
+        // Trecho de cada node (mesma ordem de nodeIds); null = texto inteiro
+        const ranges: (TextRange | null)[] = msg.ranges || [];
+
+        const style = await figma.getStyleByIdAsync(styleId);
+
+        if (!style || style.type !== "TEXT") {
+            figma.ui.postMessage({ type: "token-applied-error" });
+            return;
+        }
+
+        let successCount = 0;
+        let errorNodes: string[] = [];
+        const journalEntries: JournalEntry[] = [];
+
+        for (let k = 0; k < nodeIds.length; k++) {
+            const node = await figma.getNodeByIdAsync(nodeIds[k]);
+            const range = ranges[k] ?? undefined;
+
+            // 🔥 Trecho de texto misto: aplica o estilo só no intervalo
+            if (node && node.type === "TEXT" && range) {
+                const before = snapshotNode(node, "typography", ["textStyleId"], range);
+                try {
+                    await figma.loadFontAsync(style.fontName as FontName);
+                    await Promise.all(node.getRangeAllFontNames(range.start, range.end).map(font => figma.loadFontAsync(font)));
+                    await node.setRangeTextStyleIdAsync(range.start, range.end, styleId);
+                    successCount++;
+                    journalEntries.push(createJournalEntry(node, "apply", "typography", ["textStyleId"], { id: style.id, name: style.name }, before));
+                    figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: style.name, styleId: style.id });
+                } catch (rangeError) {
+                    console.error("❌ Erro ao aplicar estilo no trecho:", rangeError);
+                    errorNodes.push(node.name);
+                }
+                continue;
+            }
+
+            if (node && node.type === "TEXT") {
+                const before = snapshotNode(node, "typography", ["textStyleId"]);
+                try {
+                    await figma.loadFontAsync(style.fontName as FontName);
+                    await node.setTextStyleIdAsync(styleId);
+                    successCount++;
+                    journalEntries.push(createJournalEntry(node, "apply", "typography", ["textStyleId"], { id: style.id, name: style.name }, before));
+                    figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: style.name, styleId: style.id });
+                } catch (fontError) {
+                    errorNodes.push(node.name);
+                    try {
+                        const currentFont = node.fontName !== figma.mixed ? node.fontName : { family: "Inter", style: "Regular" };
+                        await figma.loadFontAsync(currentFont as FontName);
+                        await node.setTextStyleIdAsync(styleId);
+                        successCount++;
+                        journalEntries.push(createJournalEntry(node, "apply", "typography", ["textStyleId"], { id: style.id, name: style.name }, before));
+                    } catch (fallbackError) {
+                        console.error("❌ Erro mesmo com fallback:", fallbackError);
+                    }
+                }
+            }
+        }
+
+        appendJournalEntries(journalEntries);
+
+        if (successCount > 0) {
+            let successMessage = style.name;
+            if (errorNodes.length > 0) {
+                successMessage += ` (Fonte não disponível em ${errorNodes.length} elemento(s))`;
+            }
+            figma.ui.postMessage({ type: "token-applied-success", styleName: successMessage, styleId: style.id });
+        } else {
+            figma.ui.postMessage({ type: "token-applied-error", message: "Não foi possível aplicar o estilo." });
+        }
     }
-});
 
+    if (msg.type === "toggle-hidden") {
+        showHiddenElements = msg.value;
 
-figma.ui.onmessage = async (msg) => {
-    console.log("📩 mensagem recebida:", msg);
+        const scopeRoots = await resolveScopeRoots();
+        if (scopeRoots) {
+            await analyzeCurrentTab(scopeRoots);
+            return;
+        }
 
-    // 🔙 Voltar para lista
-    if (msg.type === "back-to-list") {
-        console.log("🔙 Voltando para lista...");
+        let validNodes: (FrameNode | ComponentNode | InstanceNode)[] = figma.currentPage.selection.filter(
+            (n): n is FrameNode | ComponentNode | InstanceNode =>
+                n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
+        );
 
-        if (initialSelectionIds && initialSelectionIds.length > 0) {
-            console.log("📌 Restaurando seleção:", initialSelectionIds);
+        if (validNodes.length === 0 && rootFrameIds.length > 0) {
+            for (const id of rootFrameIds) {
+                const rootNode = await figma.getNodeByIdAsync(id);
+                if (rootNode && (rootNode.type === "FRAME" || rootNode.type === "COMPONENT" || rootNode.type === "INSTANCE")) {
+                    validNodes.push(rootNode as FrameNode | ComponentNode | InstanceNode);
+                }
+            }
+        }
 
-            const nodes: SceneNode[] = [];
-            for (const id of initialSelectionIds) {
-                const node = await figma.getNodeByIdAsync(id);
-                if (node && isSceneNode(node)) {
-                    nodes.push(node);
+        if (validNodes.length > 0) {
+            await analyzeCurrentTab(validNodes);
+        }
+    }
+
+    if (msg.type === "switch-tab") {
+        currentTab = msg.tab;
+
+        const scopeRoots = await resolveScopeRoots();
+        if (scopeRoots) {
+            if (scopeRoots.length === 0) figma.ui.postMessage({ type: "empty-initial", tab: currentTab });
+            else await analyzeCurrentTab(scopeRoots);
+            return;
+        }
+
+        const hasActiveSelection = figma.currentPage.selection.length > 0;
+
+        let validNodes: (FrameNode | ComponentNode | InstanceNode)[] = [];
+
+        if (hasActiveSelection) {
+            validNodes = figma.currentPage.selection.filter(
+                (n): n is FrameNode | ComponentNode | InstanceNode =>
+                    n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
+            );
+
+            if (validNodes.length === 0) {
+                const containers = getValidFramesFromSelection();
+                validNodes = containers.filter(
+                    (n): n is FrameNode | ComponentNode | InstanceNode =>
+                        n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
+                );
+            }
+
+            if (validNodes.length === 0 && rootFrameIds.length > 0) {
+                for (const id of rootFrameIds) {
+                    const rootNode = await figma.getNodeByIdAsync(id);
+                    if (rootNode && (rootNode.type === "FRAME" || rootNode.type === "COMPONENT" || rootNode.type === "INSTANCE")) {
+                        validNodes.push(rootNode as FrameNode | ComponentNode | InstanceNode);
+                    }
                 }
             }
+        }
 
-            if (nodes.length > 0) {
-                ignoringSelectionChange = true;
+        if (validNodes.length === 0) {
+            figma.ui.postMessage({ type: "empty-initial", tab: currentTab });
+        } else {
+            analyzeCurrentTab(validNodes);
+        }
+    }
 
-                figma.currentPage.selection = nodes;
-                figma.viewport.scrollAndZoomIntoView(nodes);
+    if (msg.type === "remove-color-token") {
+        console.log("📩 remove-color-token recebido:", msg);
+        const nodeIds: string[] = msg.nodeIds || [];
+        const paintIndexes: number[] = msg.paintIndexes || [];
+        const isStroke = msg.isStroke || false;
+        const paintProp = isStroke ? "strokes" : "fills";
+        const journalEntries: JournalEntry[] = [];
 
-                console.log("✅ Seleção restaurada:", nodes.map(n => n.name));
+        for (let k = 0; k < nodeIds.length; k++) {
+            const node = await figma.getNodeByIdAsync(nodeIds[k]);
+            if (!node || !isSceneNode(node)) continue;
+
+            try {
+                const before = snapshotNode(node, "color", [paintProp]);
+                await restorePaintLayer(node, isStroke, paintIndexes[k] ?? 0, getOriginalState(node));
+                journalEntries.push(createJournalEntry(node, "remove", "color", [paintProp], { id: null, name: null }, before));
+            } catch (e) {
+                console.error("❌ Erro ao remover token de cor:", e);
+            }
+        }
+
+        appendJournalEntries(journalEntries);
+        figma.ui.postMessage({ type: "token-removed-success" });
+    }
+
+    if (msg.type === "remove-text-token") {
+        console.log("📩 remove-text-token recebido:", msg);
+        const nodeIds: string[] = msg.nodeIds || [];
+        const ranges: (TextRange | null)[] = msg.ranges || [];
+        const journalEntries: JournalEntry[] = [];
+
+        for (let k = 0; k < nodeIds.length; k++) {
+            const nodeId = nodeIds[k];
+            const node = await figma.getNodeByIdAsync(nodeId);
+            const range = ranges[k] ?? undefined;
+
+            // 🔥 Trecho: volta ao segmento original salvo (ou só desvincula o estilo)
+            if (node && node.type === "TEXT" && range) {
+                try {
+                    const before = snapshotNode(node, "typography", ["textStyleId"], range);
+                    const original = getOriginalState(node)?.textSegments?.find(
+                        segment => segment.textRange?.start === range.start && segment.textRange?.end === range.end
+                    );
+                    await restoreTextRange(node, original ?? { textRange: range, textStyleId: "" });
+                    journalEntries.push(createJournalEntry(node, "remove", "typography", ["textStyleId"], { id: null, name: null }, before));
+                } catch (e) {
+                    console.error("❌ Erro ao remover estilo do trecho:", e);
+                }
+                continue;
+            }
+
+            if (node && node.type === "TEXT") {
+                try {
+                    if (!node.textStyleId || node.textStyleId === "") continue;
+
+                    const originalState = getOriginalState(node);
+                    const before = snapshotNode(node, "typography", ["textStyleId"]);
+
+                    if (originalState && originalState.fontName && originalState.fontName !== figma.mixed) {
+                        await figma.loadFontAsync(originalState.fontName as FontName);
+                        await node.setTextStyleIdAsync("");
+                        node.fontName = originalState.fontName as FontName;
+
+                        if (originalState.fontSize !== undefined && typeof originalState.fontSize === 'number') {
+                            node.fontSize = originalState.fontSize;
+                        }
+                        if (originalState.lineHeight !== undefined && originalState.lineHeight !== figma.mixed) {
+                            node.lineHeight = originalState.lineHeight as LineHeight;
+                        }
+                        if (originalState.letterSpacing !== undefined && originalState.letterSpacing !== figma.mixed) {
+                            node.letterSpacing = originalState.letterSpacing as LetterSpacing;
+                        }
+                        if (originalState.textCase !== undefined && originalState.textCase !== figma.mixed) {
+                            node.textCase = originalState.textCase as TextCase;
+                        }
+                        if (originalState.textDecoration !== undefined && originalState.textDecoration !== figma.mixed) {
+                            node.textDecoration = originalState.textDecoration as TextDecoration;
+                        }
+                        if (originalState.paragraphSpacing !== undefined && typeof originalState.paragraphSpacing === 'number') {
+                            node.paragraphSpacing = originalState.paragraphSpacing;
+                        }
+                        if (originalState.paragraphIndent !== undefined && typeof originalState.paragraphIndent === 'number') {
+                            node.paragraphIndent = originalState.paragraphIndent;
+                        }
+                    } else if (originalState && originalState.textStyleId !== undefined && typeof originalState.textStyleId === 'string') {
+                        if (originalState.textStyleId !== "") {
+                            try {
+                                const originalStyle = await figma.getStyleByIdAsync(originalState.textStyleId);
+                                if (originalStyle && originalStyle.type === "TEXT") {
+                                    await figma.loadFontAsync(originalStyle.fontName as FontName);
+                                    await node.setTextStyleIdAsync(originalState.textStyleId);
+                                }
+                            } catch (e) {
+                                if (node.fontName !== figma.mixed) {
+                                    await figma.loadFontAsync(node.fontName as FontName);
+                                }
+                                await node.setTextStyleIdAsync("");
+                            }
+                        } else {
+                            if (node.fontName !== figma.mixed) {
+                                await figma.loadFontAsync(node.fontName as FontName);
+                            }
+                            await node.setTextStyleIdAsync("");
+                        }
+                    } else {
+                        if (node.fontName !== figma.mixed) {
+                            await figma.loadFontAsync(node.fontName as FontName);
+                        }
+                        await node.setTextStyleIdAsync("");
+                    }
+
+                    journalEntries.push(createJournalEntry(node, "remove", "typography", ["textStyleId"], { id: null, name: null }, before));
+                } catch (e) {
+                    console.error("❌ Erro ao remover estilo:", e);
+                }
+            }
+        }
+
+        appendJournalEntries(journalEntries);
+        figma.ui.postMessage({ type: "token-removed-success" });
+    }
+
+    // 🔥 Vincula uma variável de cor a um stop de gradiente
+    if (msg.type === "apply-gradient-stop-token") {
+        const nodeIds: string[] = msg.nodeIds || [];
+        const paintIndexes: number[] = msg.paintIndexes || [];
+        const isStroke = msg.isStroke || false;
+        const paintProp = isStroke ? "strokes" : "fills";
+
+        // Estilos de paint não podem ser aplicados a um stop — apenas variáveis
+        const variable = await getTokenVariable(msg.styleId);
+        if (!variable || variable.resolvedType !== "COLOR") {
+            figma.ui.postMessage({ type: "token-applied-error", message: "Stops de gradiente aceitam apenas variáveis de cor." });
+            return;
+        }
+
+        const displayName = removeTokenPrefix(variable.name);
+        const journalEntries: JournalEntry[] = [];
+        const skippedFields: AuditField[] = [];
+
+        for (let k = 0; k < nodeIds.length; k++) {
+            const node = await figma.getNodeByIdAsync(nodeIds[k]);
+            if (!node || !isSceneNode(node)) continue;
+
+            const field = getPaintField(node, isStroke);
+            if (!allowsField(variable, field)) {
+                skippedFields.push(field);
+                continue;
+            }
+
+            const before = snapshotNode(node, "color", [paintProp]);
+            if (bindGradientStopVariable(node, isStroke, paintIndexes[k] ?? 0, msg.stopIndex ?? 0, variable)) {
+                journalEntries.push(createJournalEntry(node, "apply", "color", [paintProp], { id: variable.id, name: displayName }, before));
+                figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: displayName, styleId: variable.id });
+            }
+        }
+
+        appendJournalEntries(journalEntries);
+        if (skippedFields.length > 0) {
+            figma.ui.postMessage({ type: "token-scope-warning", message: describeScopeSkip(variable, skippedFields) });
+        }
+        figma.ui.postMessage({ type: "token-applied-success", styleName: displayName, styleId: variable.id });
+    }
+
+    if (msg.type === "remove-gradient-stop-token") {
+        const nodeIds: string[] = msg.nodeIds || [];
+        const paintIndexes: number[] = msg.paintIndexes || [];
+        const isStroke = msg.isStroke || false;
+        const paintProp = isStroke ? "strokes" : "fills";
+        const journalEntries: JournalEntry[] = [];
+
+        for (let k = 0; k < nodeIds.length; k++) {
+            const node = await figma.getNodeByIdAsync(nodeIds[k]);
+            if (!node || !isSceneNode(node)) continue;
+
+            try {
+                const before = snapshotNode(node, "color", [paintProp]);
+                restoreGradientStop(node, isStroke, paintIndexes[k] ?? 0, msg.stopIndex ?? 0, getOriginalState(node));
+                journalEntries.push(createJournalEntry(node, "remove", "color", [paintProp], { id: null, name: null }, before));
+            } catch (e) {
+                console.error("❌ Erro ao remover variável do stop:", e);
+            }
+        }
 
-                await new Promise(resolve => setTimeout(resolve, 100));
-                ignoringSelectionChange = false;
+        appendJournalEntries(journalEntries);
+        figma.ui.postMessage({ type: "token-removed-success" });
+    }
 
-                const validNodes = nodes.filter(
-                    (n): n is FrameNode | ComponentNode | InstanceNode =>
-                        n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
-                );
+    // 🔥 Aplica um estilo de efeito (sombras/blurs)
+    if (msg.type === "apply-effect-style") {
+        const styleId = msg.styleId;
+        const nodeIds: string[] = msg.nodeIds || [];
 
-                if (validNodes.length > 0) {
-                    console.log("🔄 Re-analisando frames...");
-                    if (currentTab === "colors") {
-                        await analyzeColors(validNodes);
-                    } else if (currentTab === "typography") {
-                        await analyzeTypography(validNodes);
-                    } else {
-                        await analyzeSpacing(validNodes);
-                    }
-                } else if (rootFrameIds.length > 0) {
-                    const rootNodes: (FrameNode | ComponentNode | InstanceNode)[] = [];
-                    for (const id of rootFrameIds) {
-                        const n = await figma.getNodeByIdAsync(id);
-                        if (n && (n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE")) {
-                            rootNodes.push(n as FrameNode | ComponentNode | InstanceNode);
-                        }
-                    }
-                    if (rootNodes.length > 0) {
-                        if (currentTab === "colors") {
-                            await analyzeColors(rootNodes);
-                        } else if (currentTab === "typography") {
-                            await analyzeTypography(rootNodes);
-                        } else {
-                            await analyzeSpacing(rootNodes);
-                        }
-                    }
-                }
-            }
+        const style = await figma.getStyleByIdAsync(styleId).catch(() => null);
+        if (!style || style.type !== "EFFECT") {
+            figma.ui.postMessage({ type: "token-applied-error", message: "Estilo de efeito não encontrado." });
+            return;
         }
 
-        initialSelectionIds = null;
-        nodesWithAppliedToken.clear();
-        originalNodeStates.clear();
+        const displayName = removeTokenPrefix(style.name);
+        const journalEntries: JournalEntry[] = [];
 
-        return;
-    }
+        for (const nodeId of nodeIds) {
+            const node = await figma.getNodeByIdAsync(nodeId);
+            if (!node || !isSceneNode(node) || !("setEffectStyleIdAsync" in node)) continue;
 
-    // 🔒 Salvar seleção inicial
-    if (msg.type === "save-initial-selection") {
-        if (!initialSelectionIds) {
-            initialSelectionIds = figma.currentPage.selection.map(n => n.id);
-            console.log("📌 Seleção inicial salva (save):", initialSelectionIds);
+            try {
+                const before = snapshotNode(node, "effect", ["effects"]);
+                await node.setEffectStyleIdAsync(style.id);
+                journalEntries.push(createJournalEntry(node, "apply", "effect", ["effects"], { id: style.id, name: displayName }, before));
+                figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: displayName, styleId: style.id });
+            } catch (err) {
+                console.error("❌ Erro ao aplicar estilo de efeito:", err);
+            }
         }
-        return;
+
+        appendJournalEntries(journalEntries);
+        figma.ui.postMessage({ type: "token-applied-success", styleName: displayName, styleId: style.id });
     }
 
-    // 🔥 Salvar estado original dos nodes
-    if (msg.type === "save-original-state") {
+    // 🔥 Remove o estilo de efeito restaurando o estado original
+    if (msg.type === "remove-effect-style") {
         const nodeIds: string[] = msg.nodeIds || [];
-        console.log("📌 Salvando estado original de", nodeIds.length, "nodes");
+        const journalEntries: JournalEntry[] = [];
 
         for (const nodeId of nodeIds) {
             const node = await figma.getNodeByIdAsync(nodeId);
-            if (!node) continue;
-
-            const state: OriginalNodeState = {};
+            if (!node || !isSceneNode(node) || !("setEffectStyleIdAsync" in node)) continue;
 
-            if (isSceneNode(node)) {
-                if ("fillStyleId" in node) state.fillStyleId = node.fillStyleId;
-                if ("strokeStyleId" in node) state.strokeStyleId = node.strokeStyleId;
-                if ("fills" in node) state.fills = JSON.parse(JSON.stringify(node.fills));
-                if ("strokes" in node) state.strokes = JSON.parse(JSON.stringify(node.strokes));
-                if ("itemSpacing" in node) state.itemSpacing = node.itemSpacing;
-                if ("paddingTop" in node) state.paddingTop = node.paddingTop;
-                if ("paddingBottom" in node) state.paddingBottom = node.paddingBottom;
-                if ("paddingLeft" in node) state.paddingLeft = node.paddingLeft;
-                if ("paddingRight" in node) state.paddingRight = node.paddingRight;
-                if ("cornerRadius" in node) state.cornerRadius = node.cornerRadius;
-                if ("topLeftRadius" in node) state.topLeftRadius = node.topLeftRadius;
-                if ("topRightRadius" in node) state.topRightRadius = node.topRightRadius;
-                if ("bottomLeftRadius" in node) state.bottomLeftRadius = node.bottomLeftRadius;
-                if ("bottomRightRadius" in node) state.bottomRightRadius = node.bottomRightRadius;
-            }
+            try {
+                const originalState = getOriginalState(node);
+                const before = snapshotNode(node, "effect", ["effects"]);
 
-            if (node.type === "TEXT") {
-                try {
-                    if (node.fontName !== figma.mixed) {
-                        await figma.loadFontAsync(node.fontName as FontName);
+                if (originalState && originalState.effectStyleId) {
+                    await node.setEffectStyleIdAsync(originalState.effectStyleId);
+                } else {
+                    await node.setEffectStyleIdAsync("");
+                    if (originalState && originalState.effects !== undefined) {
+                        node.effects = originalState.effects;
                     }
-                    state.textStyleId = node.textStyleId;
-                    state.fontName = node.fontName;
-                    state.fontSize = node.fontSize;
-                    state.lineHeight = node.lineHeight;
-                    state.letterSpacing = node.letterSpacing;
-                    state.textCase = node.textCase;
-                    state.textDecoration = node.textDecoration;
-                    state.paragraphSpacing = node.paragraphSpacing;
-                    state.paragraphIndent = node.paragraphIndent;
-                } catch (e) {
-                    console.error("❌ Erro ao salvar estado de texto:", e);
                 }
-            }
 
-            originalNodeStates.set(nodeId, state);
+                journalEntries.push(createJournalEntry(node, "remove", "effect", ["effects"], { id: null, name: null }, before));
+            } catch (e) {
+                console.error("❌ Erro ao remover estilo de efeito:", e);
+            }
         }
-        return;
+
+        appendJournalEntries(journalEntries);
+        figma.ui.postMessage({ type: "token-removed-success" });
     }
 
-    if (msg.type === "enter-list-view") {
-        initialSelectionIds = figma.currentPage.selection.map(n => n.id);
-        console.log("📌 seleção inicial atualizada:", initialSelectionIds);
+    // 🔥 Sobrescritas de texto: volta ao estilo aplicado
+    if (msg.type === "reset-text-overrides") {
+        const nodeIds: string[] = msg.nodeIds || [];
+        const ranges: (TextRange | null)[] = msg.ranges || [];
+        const journalEntries: JournalEntry[] = [];
 
-        const containers = getValidFramesFromSelection();
-        if (containers.length > 0) {
-            rootFrameIds = containers.map(c => c.id);
-            rootFrameId = rootFrameIds[0];
-            console.log("📌 rootFrameIds atualizados:", rootFrameIds);
-        }
-    }
+        for (let k = 0; k < nodeIds.length; k++) {
+            const node = await figma.getNodeByIdAsync(nodeIds[k]);
+            if (!node || node.type !== "TEXT") continue;
+            const range = ranges[k] ?? undefined;
 
-    if (msg.type === "select-node") {
-        try {
-            const node = await figma.getNodeByIdAsync(msg.nodeId);
-            if (node && isSceneNode(node)) {
-                ignoringSelectionChange = true;
-                figma.currentPage.selection = [node];
-                figma.viewport.scrollAndZoomIntoView([node]);
-                await new Promise(resolve => setTimeout(resolve, 50));
-                ignoringSelectionChange = false;
+            try {
+                const styleId = range ? node.getRangeTextStyleId(range.start, range.end) : node.textStyleId;
+                if (typeof styleId !== "string" || !styleId) continue;
+                const style = await figma.getStyleByIdAsync(styleId);
+                if (!style || style.type !== "TEXT") continue;
+
+                const before = snapshotNode(node, "typography", ["textStyleId"], range);
+                await resetTextToStyle(node, style as TextStyle, range);
+                journalEntries.push(createJournalEntry(node, "apply", "typography", ["textStyleId"], { id: style.id, name: style.name }, before));
+            } catch (e) {
+                console.error("❌ Erro ao restaurar estilo de texto:", e);
             }
-        } catch (err) {
-            console.error("Erro ao buscar node:", err);
-            ignoringSelectionChange = false;
         }
+
+        appendJournalEntries(journalEntries);
+        figma.ui.postMessage({ type: "text-overrides-reset", count: journalEntries.length });
+        return;
     }
 
-    if (msg.type === "select-multiple-nodes") {
+    // 🔥 Sobrescritas de texto: cria um estilo novo com os valores atuais e aplica
+    if (msg.type === "create-style-from-override") {
         try {
-            ignoringSelectionChange = true;
+            const range: TextRange | undefined = msg.range ?? undefined;
+            const name = String(msg.name || "").trim();
+            if (!name) throw new Error("Informe um nome para o estilo");
 
-            const nodes = await Promise.all(
-                msg.nodeIds.map((id: string) => figma.getNodeByIdAsync(id))
-            );
+            const { node, actual } = await readTextSnapshot(msg.nodeId, range);
+            const style = await createTextStyleFromSnapshot(name, node, actual, range);
 
-            const validNodes = nodes.filter((n): n is SceneNode => !!n && isSceneNode(n));
+            await resetTextToStyle(node, style, range);
+            appendJournalEntries([createJournalEntry(node, "apply", "typography", ["textStyleId"], { id: style.id, name: style.name }, actual)]);
 
-            const safeNodes = validNodes.filter(n => {
-                if (n.type === "TEXT") return n.characters.length > 0;
-                return true;
+            // Novo estilo precisa aparecer nas sugestões
+            cachedTextTokens = null;
+            figma.ui.postMessage({ type: "text-style-created", styleName: style.name, styleId: style.id });
+        } catch (err) {
+            console.error("Erro ao criar estilo a partir da sobrescrita:", err);
+            figma.ui.postMessage({
+                type: "token-applied-error",
+                message: err instanceof Error ? err.message : "Não foi possível criar o estilo."
             });
+        }
+        return;
+    }
 
-            if (safeNodes.length) {
-                figma.currentPage.selection = safeNodes;
-                figma.viewport.scrollAndZoomIntoView(safeNodes);
-            }
-
-            await new Promise(resolve => setTimeout(resolve, 50));
-            ignoringSelectionChange = false;
+    // 🔥 Criar token a partir de um grupo sem token: nome sugerido e coleções disponíveis
+    if (msg.type === "get-create-token-options") {
+        try {
+            const source = parseCreateTokenSource(msg);
+            const { kind } = source;
+            const actual = kind === "text" && msg.nodeId
+                ? (await readTextSnapshot(msg.nodeId, msg.range ?? undefined)).actual
+                : undefined;
+            const collections = kind === "text"
+                ? []
+                : await figma.variables.getLocalVariableCollectionsAsync().catch(() => [] as VariableCollection[]);
+
+            figma.ui.postMessage({
+                type: "result-create-token-options",
+                kind,
+                suggestedName: suggestTokenName(source, actual),
+                collections: collections.map(c => ({ id: c.id, name: c.name }))
+            });
         } catch (err) {
-            console.error("Erro ao selecionar nodes:", err);
-            ignoringSelectionChange = false;
+            console.error("Erro ao preparar criação de token:", err);
+            figma.ui.postMessage({ type: "result-create-token-options", kind: msg.kind, suggestedName: "", collections: [] });
         }
+        return;
     }
 
-    if (msg.type === "get-suggested-tokens") {
+    // 🔥 Cria a variável ou o estilo com o valor do grupo; a UI aplica em seguida nos itens do grupo
+    if (msg.type === "create-token-from-group") {
         try {
-            let validNodes: (FrameNode | ComponentNode | InstanceNode)[] = figma.currentPage.selection.filter(
-                (n): n is FrameNode | ComponentNode | InstanceNode =>
-                    n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
-            );
-
-            if (validNodes.length === 0 && rootFrameIds.length > 0) {
-                for (const id of rootFrameIds) {
-                    const rootNode = await figma.getNodeByIdAsync(id);
-                    if (rootNode && (rootNode.type === "FRAME" || rootNode.type === "COMPONENT" || rootNode.type === "INSTANCE")) {
-                        validNodes.push(rootNode as FrameNode | ComponentNode | InstanceNode);
-                    }
-                }
-            }
-
-            if (validNodes.length > 0) {
-                if (currentTab === "colors") {
-                    const appliedTokens = await collectAppliedColorTokens(validNodes);
-                    figma.ui.postMessage({ type: "result-suggested-tokens", tokens: appliedTokens });
-                } else if (currentTab === "typography") {
-                    let currentStyle = undefined;
-                    if (msg.nodeId) {
-                        const node = await figma.getNodeByIdAsync(msg.nodeId);
-                        if (node && node.type === "TEXT" && node.characters.length > 0) {
-                            const fontName = node.fontName !== figma.mixed ? node.fontName : { family: "Inter", style: "Regular" };
-                            const fontSize = node.fontSize !== figma.mixed ? node.fontSize : 14;
-                            const fontWeight = node.fontWeight !== figma.mixed ? node.fontWeight : 400;
-                            currentStyle = { fontFamily: fontName.family, fontSize, fontWeight };
-                        }
-                    }
-                    const appliedTokens = await collectAppliedTextTokens(validNodes, currentStyle);
-                    figma.ui.postMessage({ type: "result-suggested-text-tokens", tokens: appliedTokens });
-                } else if (currentTab === "spacing") {
-                    const appliedTokens = await collectAppliedSpacingTokens(msg.value || 0);
-                    figma.ui.postMessage({ type: "result-suggested-spacing-tokens", tokens: appliedTokens });
-                }
+            const source = parseCreateTokenSource(msg);
+            const { kind } = source;
+            const name = String(msg.name || "").trim();
+            if (!name) throw new Error("Informe um nome para o token");
+
+            let styleId: string;
+            if (kind === "text") {
+                const range: TextRange | undefined = msg.range ?? undefined;
+                const { node, actual } = await readTextSnapshot(msg.nodeId, range);
+                styleId = (await createTextStyleFromSnapshot(name, node, actual, range)).id;
+                cachedTextTokens = null;
+            } else if (kind === "color" && msg.target === "style") {
+                const color = hexToRgb(source.hex);
+                if (!color) throw new Error("Cor inválida");
+                const style = figma.createPaintStyle();
+                style.name = name;
+                style.paints = [{ type: "SOLID", color }];
+                styleId = style.id;
+                cachedColorTokens = null;
             } else {
-                figma.ui.postMessage({ type: "result-suggested-tokens", tokens: [] });
+                const collection = await resolveTargetCollection(msg.collectionId || null, String(msg.collectionName || ""));
+                styleId = (await createVariableFromGroup(source, name, collection)).id;
+                if (kind === "color") cachedColorTokens = null;
+                else cachedSpacingTokens = null;
             }
+
+            figma.ui.postMessage({ type: "token-created", kind, styleId, name: removeTokenPrefix(name) });
         } catch (err) {
-            console.error("Erro ao buscar tokens sugeridos:", err);
-            figma.ui.postMessage({ type: "result-suggested-tokens", tokens: [] });
+            console.error("Erro ao criar token:", err);
+            figma.ui.postMessage({
+                type: "token-applied-error",
+                message: err instanceof Error ? err.message : "Não foi possível criar o token."
+            });
         }
+        return;
     }
 
-    if (msg.type === "apply-token-multiple") {
-        const styleId = msg.styleId;
-        const nodeIds: string[] = msg.nodeIds || [];
-        const isStroke = msg.isStroke || false;
-        let lastDisplayName = styleId;
+    // 🔥 Correção automática: prévia do que será alterado
+    if (msg.type === "preview-auto-fix") {
+        try {
+            const roots = await resolveAnalysisRoots();
+            pendingAutoFix = await buildAutoFixPlan(roots);
+            figma.ui.postMessage({ type: "result-auto-fix-preview", ...pendingAutoFix });
+        } catch (err) {
+            console.error("Erro ao montar correção automática:", err);
+            pendingAutoFix = null;
+            figma.ui.postMessage({ type: "auto-fix-error", message: "Não foi possível analisar as correções." });
+        }
+        return;
+    }
 
-        for (const nodeId of nodeIds) {
-            const node = await figma.getNodeByIdAsync(nodeId);
-            if (!node || !isSceneNode(node)) continue;
+    // 🔥 Correção automática: aplica o plano confirmado na prévia
+    if (msg.type === "apply-auto-fix") {
+        if (!pendingAutoFix) {
+            figma.ui.postMessage({ type: "auto-fix-error", message: "Nenhuma correção pendente." });
+            return;
+        }
 
-            const variable = await figma.variables.getVariableByIdAsync(styleId).catch(() => null);
+        const fixed: AutoFixChange[] = [];
+        const skipped: AutoFixSkip[] = [...pendingAutoFix.skipped];
 
-            if (variable && variable.resolvedType === "COLOR") {
-                if (!isStroke && "fills" in node && Array.isArray(node.fills) && node.fills.length > 0) {
-                    const newFills = node.fills.map((fill: Paint, i: number) =>
-                        i === 0 ? figma.variables.setBoundVariableForPaint(fill as SolidPaint, "color", variable) : fill
-                    );
-                    node.fills = newFills;
-                } else if (isStroke && "strokes" in node && Array.isArray(node.strokes) && node.strokes.length > 0) {
-                    const newStrokes = node.strokes.map((stroke: Paint, i: number) =>
-                        i === 0 ? figma.variables.setBoundVariableForPaint(stroke as SolidPaint, "color", variable) : stroke
-                    );
-                    node.strokes = newStrokes;
-                }
-                lastDisplayName = removeTokenPrefix(variable.name);
-                figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: lastDisplayName, styleId: variable.id });
-            } else {
-                const style = await figma.getStyleByIdAsync(styleId);
-                if (!style || style.type !== "PAINT") continue;
+        const journalEntries: JournalEntry[] = [];
 
-                if (isStroke && "setStrokeStyleIdAsync" in node) {
-                    await node.setStrokeStyleIdAsync(styleId);
-                } else if (!isStroke && "setFillStyleIdAsync" in node) {
-                    await node.setFillStyleIdAsync(styleId);
-                }
+        for (const change of pendingAutoFix.changes) {
+            try {
+                const node = await figma.getNodeByIdAsync(change.nodeId);
+                const journalProps = change.property === "cornerRadius" ? RADIUS_FIELDS.map(f => f.prop) : [change.property];
+                const before = node && isSceneNode(node) ? snapshotNode(node, change.category, journalProps) : null;
 
-                lastDisplayName = removeTokenPrefix(style.name);
-                figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: lastDisplayName, styleId: style.id });
+                await applyAutoFixChange(change);
+                fixed.push(change);
+
+                if (node && isSceneNode(node) && before) {
+                    journalEntries.push(createJournalEntry(
+                        node, "apply", change.category, journalProps, { id: change.tokenId, name: change.tokenName }, before
+                    ));
+                }
+            } catch (err) {
+                console.error("❌ Erro na correção automática:", err);
+                skipped.push({
+                    nodeId: change.nodeId, nodeName: change.nodeName, category: change.category,
+                    label: change.label, value: change.value,
+                    reason: err instanceof Error ? err.message : "Erro ao aplicar"
+                });
             }
         }
 
-        figma.ui.postMessage({ type: "token-applied-success", styleName: lastDisplayName, styleId });
+        appendJournalEntries(journalEntries);
+        pendingAutoFix = null;
+        figma.ui.postMessage({ type: "auto-fix-done", fixed, skipped });
+        return;
     }
 
-    if (msg.type === "apply-token") {
-        try {
-            const styleId = msg.styleId;
-            const isStroke = msg.isStroke;
-            const isText = msg.isText || false;
-            const nodeIds: string[] = msg.nodeIds || [msg.nodeId];
-            const nodes = await Promise.all(nodeIds.map(id => figma.getNodeByIdAsync(id)));
-            const validNodes = nodes.filter((n): n is SceneNode => !!n && isSceneNode(n));
-
-            const variable = !isText ? await figma.variables.getVariableByIdAsync(styleId).catch(() => null) : null;
-
-            await Promise.all(validNodes.map(async (node) => {
-                if (isText && node.type === "TEXT") {
-                    const style = await figma.getStyleByIdAsync(styleId);
-                    if (style && style.type === "TEXT") {
-                        await figma.loadFontAsync(style.fontName as FontName);
-                        await node.setTextStyleIdAsync(styleId);
-                    }
-                } else if (variable && variable.resolvedType === "COLOR") {
-                    if (!isStroke && "fills" in node && Array.isArray(node.fills) && node.fills.length > 0) {
-                        const newFills = node.fills.map((fill: Paint, i: number) =>
-                            i === 0 ? figma.variables.setBoundVariableForPaint(fill as SolidPaint, "color", variable) : fill
-                        );
-                        node.fills = newFills;
-                    } else if (isStroke && "strokes" in node && Array.isArray(node.strokes) && node.strokes.length > 0) {
-                        const newStrokes = node.strokes.map((stroke: Paint, i: number) =>
-                            i === 0 ? figma.variables.setBoundVariableForPaint(stroke as SolidPaint, "color", variable) : stroke
-                        );
-                        node.strokes = newStrokes;
-                    }
-                } else {
-                    if (isStroke && "setStrokeStyleIdAsync" in node) {
-                        await node.setStrokeStyleIdAsync(styleId);
-                    } else if (!isStroke && "setFillStyleIdAsync" in node) {
-                        await node.setFillStyleIdAsync(styleId);
-                    }
-                }
-
-                const rawName = variable ? variable.name : (await figma.getStyleByIdAsync(styleId))?.name || styleId;
-                const displayName = removeTokenPrefix(rawName);
-                figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: displayName, styleId });
-            }));
-
-            const rawName = variable ? variable.name : (await figma.getStyleByIdAsync(styleId))?.name || styleId;
-            figma.ui.postMessage({ type: "token-applied-success", styleName: removeTokenPrefix(rawName), styleId });
+    if (msg.type === "cancel-auto-fix") {
+        pendingAutoFix = null;
+        return;
+    }
 
-        } catch (err) {
-            console.error("Erro ao aplicar token:", err);
-            figma.ui.postMessage({ type: "token-applied-error" });
-        }
+    // 🔥 Histórico de aplicações persistido no documento
+    if (msg.type === "get-journal") {
+        const entries = readJournal().slice().reverse();
+        figma.ui.postMessage({ type: "result-journal", entries, currentSessionId: journalSessionId });
+        return;
     }
 
-    if (msg.type === "apply-typography-token-multiple") {
-        console.log("📩 apply-typography-token-multiple recebido:", msg);
+    if (msg.type === "revert-journal-entry") {
+        const result = await revertJournalEntries([msg.entryId]);
+        figma.ui.postMessage({ type: "journal-reverted", ...result });
+        figma.ui.postMessage({ type: "result-journal", entries: readJournal().slice().reverse(), currentSessionId: journalSessionId });
+        return;
+    }
 
-        const styleId = msg.styleId;
-        const nodeIds: string[] = msg.nodeIds || [];
+    if (msg.type === "revert-journal-session") {
+        const ids = readJournal().filter(e => e.sessionId === msg.sessionId).map(e => e.id);
+        const result = await revertJournalEntries(ids);
+        figma.ui.postMessage({ type: "journal-reverted", ...result });
+        figma.ui.postMessage({ type: "result-journal", entries: readJournal().slice().reverse(), currentSessionId: journalSessionId });
+        return;
+    }
 
-        const style = await figma.getStyleByIdAsync(styleId);
+    // 🔥 Regras de nomenclatura de tokens
+    if (msg.type === "get-naming-settings") {
+        await loadSettings(namingSettings);
+        figma.ui.postMessage({ type: "result-naming-settings", settings: namingSettings.current, defaults: DEFAULT_NAMING_SETTINGS });
+        return;
+    }
 
-        if (!style || style.type !== "TEXT") {
-            figma.ui.postMessage({ type: "token-applied-error" });
+    if (msg.type === "save-naming-settings") {
+        const settings = normalizeNamingSettings(msg.settings);
+        const invalid = findInvalidPatterns(settings);
+        if (invalid.length > 0) {
+            figma.ui.postMessage({ type: "naming-settings-error", message: `Regex inválida: ${invalid.join(", ")}` });
             return;
         }
 
-        let successCount = 0;
-        let errorNodes: string[] = [];
+        await saveSettings(namingSettings, settings);
 
-        for (const nodeId of nodeIds) {
-            const node = await figma.getNodeByIdAsync(nodeId);
+        // Os nomes exibidos são calculados na coleta — invalida os caches
+        cachedColorTokens = null;
+        cachedTextTokens = null;
+        cachedSpacingTokens = null;
+        cachedEffectTokens = null;
 
-            if (node && node.type === "TEXT") {
-                try {
-                    await figma.loadFontAsync(style.fontName as FontName);
-                    await node.setTextStyleIdAsync(styleId);
-                    successCount++;
-                    figma.ui.postMessage({ type: "update-detail", nodeId: node.id, styleName: style.name, styleId: style.id });
-                } catch (fontError) {
-                    errorNodes.push(node.name);
-                    try {
-                        const currentFont = node.fontName !== figma.mixed ? node.fontName : { family: "Inter", style: "Regular" };
-                        await figma.loadFontAsync(currentFont as FontName);
-                        await node.setTextStyleIdAsync(styleId);
-                        successCount++;
-                    } catch (fallbackError) {
-                        console.error("❌ Erro mesmo com fallback:", fallbackError);
-                    }
-                }
-            }
-        }
+        figma.ui.postMessage({ type: "naming-settings-saved", settings });
+        return;
+    }
 
-        if (successCount > 0) {
-            let successMessage = style.name;
-            if (errorNodes.length > 0) {
-                successMessage += ` (Fonte não disponível em ${errorNodes.length} elemento(s))`;
-            }
-            figma.ui.postMessage({ type: "token-applied-success", styleName: successMessage, styleId: style.id });
-        } else {
-            figma.ui.postMessage({ type: "token-applied-error", message: "Não foi possível aplicar o estilo." });
-        }
+    // 🔥 Escalas de espaçamento e raio
+    if (msg.type === "get-scale-settings") {
+        await loadSettings(scaleSettings);
+        const collections = await figma.variables.getLocalVariableCollectionsAsync().catch(() => [] as VariableCollection[]);
+        const resolved = await resolveScales();
+        figma.ui.postMessage({
+            type: "result-scale-settings",
+            settings: scaleSettings.current,
+            defaults: DEFAULT_SCALE_SETTINGS,
+            resolved,
+            collections: collections.map(c => ({ id: c.id, name: c.name }))
+        });
+        return;
     }
 
-    if (msg.type === "toggle-hidden") {
-        showHiddenElements = msg.value;
+    if (msg.type === "save-scale-settings") {
+        await saveSettings(scaleSettings, normalizeScaleSettings(msg.settings));
+        const resolved = await resolveScales();
+        figma.ui.postMessage({ type: "scale-settings-saved", settings: scaleSettings.current, resolved });
+        return;
+    }
 
-        let validNodes: (FrameNode | ComponentNode | InstanceNode)[] = figma.currentPage.selection.filter(
-            (n): n is FrameNode | ComponentNode | InstanceNode =>
-                n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
-        );
+    if (msg.type === "get-text-match-settings") {
+        await loadSettings(textMatchSettings);
+        figma.ui.postMessage({
+            type: "result-text-match-settings",
+            settings: textMatchSettings.current,
+            defaults: DEFAULT_TEXT_MATCH_SETTINGS
+        });
+        return;
+    }
 
-        if (validNodes.length === 0 && rootFrameIds.length > 0) {
-            for (const id of rootFrameIds) {
-                const rootNode = await figma.getNodeByIdAsync(id);
-                if (rootNode && (rootNode.type === "FRAME" || rootNode.type === "COMPONENT" || rootNode.type === "INSTANCE")) {
-                    validNodes.push(rootNode as FrameNode | ComponentNode | InstanceNode);
-                }
-            }
+    if (msg.type === "save-text-match-settings") {
+        await saveSettings(textMatchSettings, normalizeTextMatchSettings(msg.settings));
+        figma.ui.postMessage({ type: "text-match-settings-saved", settings: textMatchSettings.current });
+        return;
+    }
+
+    // 🔥 Interrompe a análise em andamento (os resultados parciais são descartados)
+    if (msg.type === "cancel-analysis") {
+        currentScanId++;
+        backgroundCancelledUpTo = backgroundRunSeq;
+        figma.ui.postMessage({ type: "analysis-cancelled" });
+        return;
+    }
+
+    // 🔥 Cobertura de tokens do escopo atual (mesmas varreduras das abas, contando os dois lados)
+    if (msg.type === "get-coverage") {
+        const roots = await resolveAnalysisRoots();
+        if (roots.length === 0) {
+            figma.ui.postMessage({ type: "coverage-error", message: "Nenhum frame para auditar no escopo atual." });
+            return;
         }
 
-        if (validNodes.length > 0) {
-            if (currentTab === "colors") {
-                await analyzeColors(validNodes);
-            } else if (currentTab === "typography") {
-                await analyzeTypography(validNodes);
-            } else {
-                await analyzeSpacing(validNodes);
+        runningAnalyses++;
+        try {
+            const tally = createCoverageTally();
+            const results = await runAllScans(roots, tally);
+            if (!results) {
+                figma.ui.postMessage({ type: "analysis-cancelled" });
+                return;
             }
+
+            figma.ui.postMessage({ type: "result-coverage", coverage: buildCoverageReport(tally, roots) });
+        } catch (err) {
+            console.error("Erro ao calcular cobertura:", err);
+            figma.ui.postMessage({ type: "coverage-error", message: "Não foi possível calcular a cobertura." });
+        } finally {
+            runningAnalyses--;
         }
+        return;
     }
 
-    if (msg.type === "switch-tab") {
-        currentTab = msg.tab;
-
-        const hasActiveSelection = figma.currentPage.selection.length > 0;
-
-        let validNodes: (FrameNode | ComponentNode | InstanceNode)[] = [];
+    // 🔥 Baseline: salva a auditoria atual ou compara com a salva
+    if (msg.type === "save-baseline" || msg.type === "get-baseline-diff") {
+        const baseline = readBaseline();
+        if (msg.type === "get-baseline-diff" && !baseline) {
+            figma.ui.postMessage({ type: "result-baseline-diff", baseline: null });
+            return;
+        }
 
-        if (hasActiveSelection) {
-            validNodes = figma.currentPage.selection.filter(
-                (n): n is FrameNode | ComponentNode | InstanceNode =>
-                    n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
-            );
+        const roots = await resolveAnalysisRoots();
+        if (roots.length === 0) {
+            figma.ui.postMessage({ type: "baseline-error", message: "Nenhum frame para auditar no escopo atual." });
+            return;
+        }
 
-            if (validNodes.length === 0) {
-                const containers = getValidFramesFromSelection();
-                validNodes = containers.filter(
-                    (n): n is FrameNode | ComponentNode | InstanceNode =>
-                        n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
-                );
+        runningAnalyses++;
+        try {
+            const tally = createCoverageTally();
+            const results = await runAllScans(roots, tally, true);
+            if (!results) {
+                figma.ui.postMessage({ type: "analysis-cancelled" });
+                return;
             }
 
-            if (validNodes.length === 0 && rootFrameIds.length > 0) {
-                for (const id of rootFrameIds) {
-                    const rootNode = await figma.getNodeByIdAsync(id);
-                    if (rootNode && (rootNode.type === "FRAME" || rootNode.type === "COMPONENT" || rootNode.type === "INSTANCE")) {
-                        validNodes.push(rootNode as FrameNode | ComponentNode | InstanceNode);
-                    }
-                }
+            const current = (await collectReportFindings(results, false)).map(toBaselineFinding);
+            const score = coverageScore(tally.total);
+
+            if (msg.type === "save-baseline") {
+                writeBaseline({
+                    createdAt: Date.now(),
+                    scope: analysisScope,
+                    target: describeCoverageTarget(roots),
+                    score,
+                    counts: tally.total,
+                    findings: current
+                });
+                figma.ui.postMessage({ type: "baseline-saved", total: current.filter(f => !f.suppressed).length });
+                return;
             }
+
+            const diff = diffAgainstBaseline(baseline!, current);
+            figma.ui.postMessage({
+                type: "result-baseline-diff",
+                baseline: { createdAt: baseline!.createdAt, scope: baseline!.scope, score: baseline!.score, total: baseline!.findings.filter(f => !f.suppressed).length },
+                // Escopo ou frames diferentes do baseline: a comparação fica distorcida
+                sameTarget: baseline!.target === describeCoverageTarget(roots),
+                score,
+                ...diff
+            });
+        } catch (err) {
+            console.error("Erro no baseline:", err);
+            figma.ui.postMessage({ type: "baseline-error", message: "Não foi possível salvar ou comparar o baseline." });
+        } finally {
+            runningAnalyses--;
         }
+        return;
+    }
 
-        if (validNodes.length === 0) {
-            figma.ui.postMessage({ type: "empty-initial", tab: currentTab });
-        } else {
-            if (currentTab === "colors") {
-                analyzeColors(validNodes);
-            } else if (currentTab === "typography") {
-                analyzeTypography(validNodes);
+    if (msg.type === "clear-baseline") {
+        writeBaseline(null);
+        showOnlyNewSinceBaseline = false;
+        figma.ui.postMessage({ type: "result-baseline-diff", baseline: null });
+        return;
+    }
+
+    // 🔥 Revincula um frame desvinculado (troca por uma instância nova do componente)
+    // ou atualiza uma instância para a versão publicada do componente
+    if (msg.type === "relink-component") {
+        try {
+            const node = await figma.getNodeByIdAsync(msg.nodeId);
+            if (node && node.type === "FRAME" && node.detachedInfo) {
+                const component = await resolveDetachedComponent(node);
+                const parent = node.parent;
+                if (!component || !parent) throw new Error("Componente de origem não encontrado.");
+
+                const instance = component.createInstance();
+                parent.insertChild(parent.children.indexOf(node), instance);
+                instance.x = node.x;
+                instance.y = node.y;
+                instance.name = node.name;
+                // Dentro de auto layout, mantém o comportamento do frame no pai
+                if ("layoutMode" in parent && parent.layoutMode !== "NONE") {
+                    instance.layoutPositioning = node.layoutPositioning;
+                    instance.layoutAlign = node.layoutAlign;
+                    instance.layoutGrow = node.layoutGrow;
+                }
+                try {
+                    instance.resize(node.width, node.height);
+                } catch (e) {
+                    // Instância com auto layout que não aceita o tamanho do frame: mantém o do componente
+                }
+                node.remove();
+                figma.ui.postMessage({ type: "component-relinked", nodeId: msg.nodeId, newNodeId: instance.id });
+            } else if (node && node.type === "INSTANCE") {
+                const main = await node.getMainComponentAsync();
+                const published = main ? await importLibraryComponent(main.key) : null;
+                if (!published) throw new Error("O componente não está publicado em nenhuma biblioteca disponível.");
+
+                node.swapComponent(published);
+                figma.ui.postMessage({ type: "component-relinked", nodeId: msg.nodeId, newNodeId: node.id });
             } else {
-                analyzeSpacing(validNodes);
+                throw new Error("Elemento não encontrado.");
             }
+        } catch (err) {
+            console.error("Erro ao revincular componente:", err);
+            figma.ui.postMessage({ type: "relink-error", message: (err as Error).message || "Não foi possível revincular o componente." });
         }
+        return;
     }
 
-    if (msg.type === "remove-color-token") {
-        console.log("📩 remove-color-token recebido:", msg);
-        const nodeIds: string[] = msg.nodeIds || [];
-        const isStroke = msg.isStroke || false;
+    // 🔥 Ignora findings de propósito: só o valor, o elemento inteiro ou o elemento e seus filhos
+    if (msg.type === "suppress-findings") {
+        const level: SuppressionLevel = msg.level;
+        const suppression: Suppression = {
+            reason: (msg.reason || "").trim(),
+            createdAt: Date.now(),
+            expiresAt: msg.expiresAt || null,
+            user: getCurrentUserName()
+        };
 
-        for (const nodeId of nodeIds) {
-            const node = await figma.getNodeByIdAsync(nodeId);
+        let count = 0;
+        for (const target of msg.targets as { nodeId: string; findingId: string }[]) {
+            const node = await figma.getNodeByIdAsync(target.nodeId);
             if (!node || !isSceneNode(node)) continue;
 
-            try {
-                const originalState = originalNodeStates.get(nodeId);
-
-                if (originalState) {
-                    if (isStroke) {
-                        if (originalState.strokeStyleId !== undefined && "setStrokeStyleIdAsync" in node) {
-                            if (typeof originalState.strokeStyleId === 'string') {
-                                await node.setStrokeStyleIdAsync(originalState.strokeStyleId);
-                            } else if (originalState.strokeStyleId === figma.mixed) {
-                                await node.setStrokeStyleIdAsync("");
-                            }
-                        }
-                        if (originalState.strokes !== undefined && "strokes" in node) {
-                            node.strokes = originalState.strokes as Paint[];
-                        }
-                    } else {
-                        if (originalState.fillStyleId !== undefined && "setFillStyleIdAsync" in node) {
-                            if (typeof originalState.fillStyleId === 'string') {
-                                await node.setFillStyleIdAsync(originalState.fillStyleId);
-                            } else if (originalState.fillStyleId === figma.mixed) {
-                                await node.setFillStyleIdAsync("");
-                            }
-                        }
-                        if (originalState.fills !== undefined && "fills" in node) {
-                            node.fills = originalState.fills as Paint[];
-                        }
-                    }
-                } else {
-                    if (isStroke && "setStrokeStyleIdAsync" in node) {
-                        await node.setStrokeStyleIdAsync("");
-                    } else if (!isStroke && "setFillStyleIdAsync" in node) {
-                        await node.setFillStyleIdAsync("");
-                    }
-                }
-            } catch (e) {
-                console.error("❌ Erro ao remover token de cor:", e);
+            const stored = readStoredSuppressions(node);
+            if (level === "finding") {
+                stored.findings = { ...stored.findings, [target.findingId]: suppression };
+            } else {
+                stored[level] = suppression;
             }
+            writeStoredSuppressions(node, stored);
+            count++;
         }
 
-        figma.ui.postMessage({ type: "token-removed-success" });
+        figma.ui.postMessage({ type: "findings-suppressed", count });
+        return;
     }
 
-    if (msg.type === "remove-text-token") {
-        console.log("📩 remove-text-token recebido:", msg);
-        const nodeIds: string[] = msg.nodeIds || [];
-
-        for (const nodeId of nodeIds) {
-            const node = await figma.getNodeByIdAsync(nodeId);
+    // Reativa uma finding ignorada (no node de onde a supressão veio)
+    if (msg.type === "unsuppress-finding") {
+        const node = await figma.getNodeByIdAsync(msg.sourceNodeId);
+        if (node) {
+            const stored = readStoredSuppressions(node);
+            if (msg.level === "finding") {
+                if (stored.findings) delete stored.findings[msg.findingId];
+            } else {
+                delete stored[msg.level as "node" | "subtree"];
+            }
+            writeStoredSuppressions(node, stored);
+        }
+        figma.ui.postMessage({ type: "finding-unsuppressed" });
+        return;
+    }
 
-            if (node && node.type === "TEXT") {
-                try {
-                    if (!node.textStyleId || node.textStyleId === "") continue;
+    if (msg.type === "toggle-suppressed") {
+        showSuppressedFindings = msg.value;
+        const roots = await resolveAnalysisRoots();
+        if (roots.length > 0) await analyzeCurrentTab(roots);
+        return;
+    }
 
-                    const originalState = originalNodeStates.get(nodeId);
+    // 🔥 Filtro "novos desde o baseline" nas listas (como o toggle de ocultos)
+    if (msg.type === "toggle-baseline-filter") {
+        showOnlyNewSinceBaseline = msg.value;
+        const roots = await resolveAnalysisRoots();
+        if (roots.length > 0) await analyzeCurrentTab(roots);
+        return;
+    }
 
-                    if (originalState && originalState.fontName && originalState.fontName !== figma.mixed) {
-                        await figma.loadFontAsync(originalState.fontName as FontName);
-                        await node.setTextStyleIdAsync("");
-                        node.fontName = originalState.fontName as FontName;
+    // 🔥 Relatório de todas as categorias do escopo atual, em JSON, CSV ou Markdown
+    if (msg.type === "export-report") {
+        const format = REPORT_FORMATS[msg.format] ? msg.format : "json";
+        const roots = await resolveAnalysisRoots();
+        if (roots.length === 0) {
+            figma.ui.postMessage({ type: "report-error", message: "Nenhum frame para auditar no escopo atual." });
+            return;
+        }
 
-                        if (originalState.fontSize !== undefined && typeof originalState.fontSize === 'number') {
-                            node.fontSize = originalState.fontSize;
-                        }
-                        if (originalState.lineHeight !== undefined && originalState.lineHeight !== figma.mixed) {
-                            node.lineHeight = originalState.lineHeight as LineHeight;
-                        }
-                        if (originalState.letterSpacing !== undefined && originalState.letterSpacing !== figma.mixed) {
-                            node.letterSpacing = originalState.letterSpacing as LetterSpacing;
-                        }
-                        if (originalState.textCase !== undefined && originalState.textCase !== figma.mixed) {
-                            node.textCase = originalState.textCase as TextCase;
-                        }
-                        if (originalState.textDecoration !== undefined && originalState.textDecoration !== figma.mixed) {
-                            node.textDecoration = originalState.textDecoration as TextDecoration;
-                        }
-                        if (originalState.paragraphSpacing !== undefined && typeof originalState.paragraphSpacing === 'number') {
-                            node.paragraphSpacing = originalState.paragraphSpacing;
-                        }
-                        if (originalState.paragraphIndent !== undefined && typeof originalState.paragraphIndent === 'number') {
-                            node.paragraphIndent = originalState.paragraphIndent;
-                        }
-                    } else if (originalState && originalState.textStyleId !== undefined && typeof originalState.textStyleId === 'string') {
-                        if (originalState.textStyleId !== "") {
-                            try {
-                                const originalStyle = await figma.getStyleByIdAsync(originalState.textStyleId);
-                                if (originalStyle && originalStyle.type === "TEXT") {
-                                    await figma.loadFontAsync(originalStyle.fontName as FontName);
-                                    await node.setTextStyleIdAsync(originalState.textStyleId);
-                                }
-                            } catch (e) {
-                                if (node.fontName !== figma.mixed) {
-                                    await figma.loadFontAsync(node.fontName as FontName);
-                                }
-                                await node.setTextStyleIdAsync("");
-                            }
-                        } else {
-                            if (node.fontName !== figma.mixed) {
-                                await figma.loadFontAsync(node.fontName as FontName);
-                            }
-                            await node.setTextStyleIdAsync("");
-                        }
-                    } else {
-                        if (node.fontName !== figma.mixed) {
-                            await figma.loadFontAsync(node.fontName as FontName);
-                        }
-                        await node.setTextStyleIdAsync("");
-                    }
-                } catch (e) {
-                    console.error("❌ Erro ao remover estilo:", e);
-                }
+        runningAnalyses++;
+        try {
+            const results = await runAllScans(roots);
+            if (!results) {
+                figma.ui.postMessage({ type: "analysis-cancelled" });
+                return;
             }
+
+            const report = buildAuditReport(await collectReportFindings(results));
+            const { extension, mimeType, render } = REPORT_FORMATS[format];
+            figma.ui.postMessage({
+                type: "report-ready",
+                fileName: `token-audit-${report.generatedAt.slice(0, 10)}.${extension}`,
+                mimeType,
+                content: render(report),
+                summary: report.summary
+            });
+        } catch (err) {
+            console.error("Erro ao exportar relatório:", err);
+            figma.ui.postMessage({ type: "report-error", message: "Não foi possível gerar o relatório." });
+        } finally {
+            runningAnalyses--;
         }
+        return;
+    }
 
-        figma.ui.postMessage({ type: "token-removed-success" });
+    // 🔥 Troca o escopo da auditoria e analisa de novo
+    if (msg.type === "set-analysis-scope") {
+        if (!ANALYSIS_SCOPES.includes(msg.scope)) {
+            console.error("Escopo de análise inválido:", msg.scope);
+            return;
+        }
+        analysisScope = msg.scope;
+        const roots = await resolveAnalysisRoots();
+        if (roots.length === 0) {
+            figma.ui.postMessage({ type: "empty", clearAll: true });
+        } else {
+            await analyzeCurrentTab(roots);
+        }
+        return;
     }
 
     if (msg.type === "reanalyze") {
+        const scopeRoots = await resolveScopeRoots();
+        if (scopeRoots) {
+            await analyzeCurrentTab(scopeRoots);
+            return;
+        }
+
         let validNodes: (FrameNode | ComponentNode | InstanceNode)[] = figma.currentPage.selection.filter(
             (n): n is FrameNode | ComponentNode | InstanceNode =>
                 n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE"
@@ -1443,13 +6343,7 @@ figma.ui.onmessage = async (msg) => {
         }
 
         if (validNodes.length > 0) {
-            if (currentTab === "colors") {
-                await analyzeColors(validNodes);
-            } else if (currentTab === "typography") {
-                await analyzeTypography(validNodes);
-            } else {
-                await analyzeSpacing(validNodes);
-            }
+            await analyzeCurrentTab(validNodes);
         }
     }
 
@@ -1472,13 +6366,24 @@ figma.ui.onmessage = async (msg) => {
         };
 
         const prop = propertyMap[type];
+        const journalProps = spacingTypeToProps(type);
+        const journalEntries: JournalEntry[] = [];
+
+        // 🔥 Variável com escopo incompatível (ex.: FONT_SIZE num gap) não é vinculada
+        const scopedVariable = await getTokenVariable(styleId);
+        const field = spacingTypeToField(type);
+        if (scopedVariable && !allowsField(scopedVariable, field)) {
+            figma.ui.postMessage({ type: "token-applied-error", message: describeScopeSkip(scopedVariable, nodeIds.map(() => field)) });
+            return;
+        }
 
         for (const nodeId of nodeIds) {
             const node = await figma.getNodeByIdAsync(nodeId);
             if (!node || !("setBoundVariable" in node)) continue;
 
             try {
-                const variable = await figma.variables.getVariableByIdAsync(styleId).catch(() => null);
+                const before = snapshotNode(node as SceneNode, "spacing", journalProps);
+                const variable = scopedVariable;
                 if (variable) {
                     if (type === "Border Radius") {
                         // Aplica raio uniforme vinculando os 4 cantos
@@ -1492,12 +6397,15 @@ figma.ui.onmessage = async (msg) => {
                         (node as any).setBoundVariable(prop as VariableBindableNodeField, variable);
                     }
                     lastDisplayName = removeTokenPrefix(variable.name);
+                    journalEntries.push(createJournalEntry(node as SceneNode, "apply", "spacing", journalProps, { id: variable.id, name: lastDisplayName }, before));
                     figma.ui.postMessage({ type: "token-applied-success", styleName: lastDisplayName, styleId: variable.id });
                 }
             } catch (err) {
                 console.error("Erro ao aplicar token de espaçamento:", err);
             }
         }
+
+        appendJournalEntries(journalEntries);
     }
     if (msg.type === "remove-spacing-token") {
         const nodeIds: string[] = msg.nodeIds || [];
@@ -1516,13 +6424,16 @@ figma.ui.onmessage = async (msg) => {
         };
 
         const prop = propertyMap[type];
+        const journalProps = spacingTypeToProps(type);
+        const journalEntries: JournalEntry[] = [];
 
         for (const nodeId of nodeIds) {
             const node = await figma.getNodeByIdAsync(nodeId);
             if (!node || !("setBoundVariable" in node)) continue;
 
             try {
-                const originalState = originalNodeStates.get(nodeId);
+                const originalState = getOriginalState(node);
+                const before = snapshotNode(node as SceneNode, "spacing", journalProps);
 
                 if (type === "Border Radius") {
                     const cornerProps = [
@@ -1548,10 +6459,14 @@ figma.ui.onmessage = async (msg) => {
                         if (prop === "paddingRight" && originalState.paddingRight !== undefined) (node as any).paddingRight = originalState.paddingRight;
                     }
                 }
+
+                journalEntries.push(createJournalEntry(node as SceneNode, "remove", "spacing", journalProps, { id: null, name: null }, before));
             } catch (err) {
                 console.error("Erro ao remover token de espaçamento:", err);
             }
         }
+
+        appendJournalEntries(journalEntries);
         figma.ui.postMessage({ type: "token-removed-success" });
     }
 };
@@ -1560,6 +6475,8 @@ figma.ui.onmessage = async (msg) => {
 figma.ui.postMessage({ type: "init-tab", tab: currentTab });
 
 (async () => {
+    await Promise.all([loadSettings(namingSettings), loadSettings(scaleSettings), loadSettings(textMatchSettings)]);
+
     const containers = getValidFramesFromSelection();
 
     if (containers.length > 0) {
@@ -1568,13 +6485,7 @@ figma.ui.postMessage({ type: "init-tab", tab: currentTab });
         initialSelectionIds = figma.currentPage.selection.map(n => n.id);
         console.log("✅ Frames ao iniciar:", containers.map(c => c.name));
 
-        if (currentTab === "colors") {
-            analyzeColors(containers);
-        } else if (currentTab === "typography") {
-            analyzeTypography(containers);
-        } else {
-            analyzeSpacing(containers);
-        }
+        analyzeCurrentTab(containers);
     } else {
         figma.ui.postMessage({ type: "empty", clearAll: true });
     }